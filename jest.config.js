@@ -0,0 +1,17 @@
+module.exports = {
+  transform: {
+    '^.+\\.[jt]s$': [
+      '@swc/jest',
+      {
+        jsc: {
+          parser: { syntax: 'typescript', decorators: true },
+          target: 'es2021',
+        },
+      },
+    ],
+  },
+  testEnvironment: 'node',
+  moduleFileExtensions: ['js', 'ts', 'json'],
+  modulePathIgnorePatterns: ['dist/', '<rootDir>/.medusa/'],
+  testMatch: ['**/src/**/__tests__/**/*.unit.spec.[jt]s'],
+}
@@ -0,0 +1,203 @@
+import { Button, Heading, IconButton, Input, Label, Select, Switch, Text, Textarea, toast } from '@medusajs/ui'
+import { Trash } from '@medusajs/icons'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { FormEvent, useState } from 'react'
+import { sdk } from '../lib/sdk'
+import type { MerchandisingMatchType, QueryBanner, QueryRuleDTO } from '../../modules/meilisearch/types'
+
+export const QUERY_RULES_QUERY_KEY = ['meilisearch', 'query-rules']
+
+// Value of datetime-local inputs, in local time
+const toDateInput = (date?: Date | string | null) => {
+  if (!date) {
+    return ''
+  }
+  const value = new Date(date)
+  return new Date(value.getTime() - value.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+const fromDateInput = (value: string) => (value ? new Date(value).toISOString() : null)
+
+const BannerFields = ({
+  banner,
+  onChange,
+  onRemove,
+}: {
+  banner: QueryBanner
+  onChange: (banner: QueryBanner) => void
+  onRemove: () => void
+}) => (
+  <div className="flex flex-col gap-y-2 rounded-md border p-4">
+    <div className="flex items-center gap-x-2">
+      <Input
+        placeholder="Title"
+        value={banner.title ?? ''}
+        onChange={(event) => onChange({ ...banner, title: event.target.value || undefined })}
+      />
+      <Select
+        value={banner.position ?? 'top'}
+        onValueChange={(position) => onChange({ ...banner, position: position as QueryBanner['position'] })}
+      >
+        <Select.Trigger className="w-32">
+          <Select.Value />
+        </Select.Trigger>
+        <Select.Content>
+          <Select.Item value="top">Top</Select.Item>
+          <Select.Item value="bottom">Bottom</Select.Item>
+        </Select.Content>
+      </Select>
+      <IconButton type="button" variant="transparent" onClick={onRemove}>
+        <Trash />
+      </IconButton>
+    </div>
+    <Textarea
+      placeholder="Body"
+      rows={2}
+      value={banner.body ?? ''}
+      onChange={(event) => onChange({ ...banner, body: event.target.value || undefined })}
+    />
+    <div className="grid grid-cols-2 gap-2">
+      <Input
+        placeholder="Image URL"
+        value={banner.image_url ?? ''}
+        onChange={(event) => onChange({ ...banner, image_url: event.target.value || undefined })}
+      />
+      <Input
+        placeholder="Link URL"
+        value={banner.link_url ?? ''}
+        onChange={(event) => onChange({ ...banner, link_url: event.target.value || undefined })}
+      />
+    </div>
+  </div>
+)
+
+/**
+ * Form creating a query rule, or editing the given rule
+ */
+export const QueryRuleForm = ({ rule, onDone }: { rule?: QueryRuleDTO; onDone: () => void }) => {
+  const queryClient = useQueryClient()
+  const [name, setName] = useState(rule?.name ?? '')
+  const [query, setQuery] = useState(rule?.query ?? '')
+  const [matchType, setMatchType] = useState<MerchandisingMatchType>(rule?.match_type ?? 'exact')
+  const [redirectUrl, setRedirectUrl] = useState(rule?.redirect_url ?? '')
+  const [banners, setBanners] = useState<QueryBanner[]>(rule?.banners ?? [])
+  const [enabled, setEnabled] = useState(rule?.enabled ?? true)
+  const [startsAt, setStartsAt] = useState(toDateInput(rule?.starts_at))
+  const [endsAt, setEndsAt] = useState(toDateInput(rule?.ends_at))
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: () =>
+      sdk.client.fetch<{ query_rule: QueryRuleDTO }>(
+        rule ? `/admin/meilisearch/query-rules/${rule.id}` : '/admin/meilisearch/query-rules',
+        {
+          method: 'POST',
+          body: {
+            name,
+            query,
+            match_type: matchType,
+            redirect_url: redirectUrl || null,
+            banners: banners.length ? banners : null,
+            enabled,
+            starts_at: fromDateInput(startsAt),
+            ends_at: fromDateInput(endsAt),
+          },
+        },
+      ),
+    onSuccess: () => {
+      toast.success(rule ? 'Updated the query rule' : 'Created the query rule')
+      queryClient.invalidateQueries({ queryKey: QUERY_RULES_QUERY_KEY })
+      onDone()
+    },
+    onError: (err) => {
+      console.error(err)
+      toast.error(err.message)
+    },
+  })
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    mutate()
+  }
+
+  const updateBanner = (index: number, banner: QueryBanner) =>
+    setBanners((current) => current.map((existing, i) => (i === index ? banner : existing)))
+
+  return (
+    <form className="flex flex-col gap-y-4" onSubmit={handleSubmit}>
+      <Heading level="h2">{rule ? `Edit ${rule.name}` : 'New query rule'}</Heading>
+      <div className="grid grid-cols-3 gap-4">
+        <div className="flex flex-col gap-y-2">
+          <Label size="small">Name</Label>
+          <Input value={name} onChange={(event) => setName(event.target.value)} placeholder="Returns page" />
+        </div>
+        <div className="flex flex-col gap-y-2">
+          <Label size="small">Query</Label>
+          <Input value={query} onChange={(event) => setQuery(event.target.value)} placeholder="returns" />
+        </div>
+        <div className="flex flex-col gap-y-2">
+          <Label size="small">Match</Label>
+          <Select value={matchType} onValueChange={(value) => setMatchType(value as MerchandisingMatchType)}>
+            <Select.Trigger>
+              <Select.Value />
+            </Select.Trigger>
+            <Select.Content>
+              <Select.Item value="exact">Exact query</Select.Item>
+              <Select.Item value="contains">Query contains</Select.Item>
+            </Select.Content>
+          </Select>
+        </div>
+      </div>
+      <div className="flex flex-col gap-y-2">
+        <Label size="small">Redirect URL</Label>
+        <Input
+          value={redirectUrl}
+          onChange={(event) => setRedirectUrl(event.target.value)}
+          placeholder="/returns-policy"
+        />
+        <Text size="small" className="text-ui-fg-subtle">
+          Matching searches return this URL instead of products. Leave empty to only show banners.
+        </Text>
+      </div>
+      <div className="flex flex-col gap-y-2">
+        <Label size="small">Banners</Label>
+        {banners.map((banner, index) => (
+          <BannerFields
+            key={index}
+            banner={banner}
+            onChange={(updated) => updateBanner(index, updated)}
+            onRemove={() => setBanners((current) => current.filter((_, i) => i !== index))}
+          />
+        ))}
+        <div>
+          <Button type="button" size="small" variant="secondary" onClick={() => setBanners([...banners, {}])}>
+            Add banner
+          </Button>
+        </div>
+      </div>
+      <div className="grid grid-cols-3 items-end gap-4">
+        <div className="flex flex-col gap-y-2">
+          <Label size="small">Starts at</Label>
+          <Input type="datetime-local" value={startsAt} onChange={(event) => setStartsAt(event.target.value)} />
+        </div>
+        <div className="flex flex-col gap-y-2">
+          <Label size="small">Ends at</Label>
+          <Input type="datetime-local" value={endsAt} onChange={(event) => setEndsAt(event.target.value)} />
+        </div>
+        <div className="flex items-center gap-x-2 pb-2">
+          <Switch id="query-rule-enabled" checked={enabled} onCheckedChange={setEnabled} />
+          <Label size="small" htmlFor="query-rule-enabled">
+            Enabled
+          </Label>
+        </div>
+      </div>
+      <div className="flex gap-x-2">
+        <Button type="submit" variant="primary" isLoading={isPending} disabled={!name}>
+          Save
+        </Button>
+        <Button type="button" variant="secondary" onClick={onDone}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,224 @@
+import { Button, Heading, Input, Label, Switch, Text, Textarea, toast } from '@medusajs/ui'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { ReactNode, useState } from 'react'
+import type { Settings } from 'meilisearch'
+import { sdk } from '../lib/sdk'
+import type { OverridableSetting, SettingsOverrideDTO } from '../../modules/meilisearch/types'
+
+export const settingsOverridesQueryKey = (indexKey?: string) => ['meilisearch', 'settings-overrides', indexKey]
+
+type OverrideValue = SettingsOverrideDTO['value']
+
+const splitLines = (value: string) =>
+  value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+
+const splitList = (value: string) =>
+  value
+    .split(/[,\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+const useOverrideMutations = (indexKey: string, setting: OverridableSetting) => {
+  const queryClient = useQueryClient()
+  const onSettled = () => queryClient.invalidateQueries({ queryKey: settingsOverridesQueryKey(indexKey) })
+  const onError = (err: Error) => {
+    console.error(err)
+    toast.error(err.message)
+  }
+
+  const save = useMutation({
+    mutationFn: (value: OverrideValue) =>
+      sdk.client.fetch<{ settings_override: SettingsOverrideDTO }>(`/admin/meilisearch/indexes/${indexKey}/settings`, {
+        method: 'POST',
+        body: { setting, value },
+      }),
+    onSuccess: () => toast.success(`Saved ${setting} of ${indexKey}`),
+    onError,
+    onSettled,
+  })
+
+  const reset = useMutation({
+    mutationFn: () =>
+      sdk.client.fetch(`/admin/meilisearch/indexes/${indexKey}/settings/${setting}`, {
+        method: 'DELETE',
+      }),
+    onSuccess: () => toast.success(`Restored the configured ${setting} of ${indexKey}`),
+    onError,
+    onSettled,
+  })
+
+  return { save, reset }
+}
+
+type SettingSectionProps = {
+  indexKey: string
+  setting: OverridableSetting
+  title: string
+  description: string
+  override?: SettingsOverrideDTO
+  getValue: () => OverrideValue
+  children: ReactNode
+}
+
+const SettingSection = ({
+  indexKey,
+  setting,
+  title,
+  description,
+  override,
+  getValue,
+  children,
+}: SettingSectionProps) => {
+  const { save, reset } = useOverrideMutations(indexKey, setting)
+
+  return (
+    <div className="flex flex-col gap-y-3 px-6 py-4">
+      <div className="flex flex-col gap-y-1">
+        <Heading level="h2">{title}</Heading>
+        <Text size="small" className="text-ui-fg-subtle">
+          {description}
+        </Text>
+      </div>
+      {children}
+      <div className="flex items-center justify-between">
+        <Text size="small" className="text-ui-fg-subtle">
+          {override
+            ? `Overridden${override.updated_by ? ` by ${override.updated_by}` : ''} on ${new Date(override.updated_at).toLocaleString()}`
+            : 'Using the configured value'}
+        </Text>
+        <div className="flex gap-x-2">
+          {override && (
+            <Button size="small" variant="secondary" isLoading={reset.isPending} onClick={() => reset.mutate()}>
+              Restore configured value
+            </Button>
+          )}
+          <Button size="small" variant="primary" isLoading={save.isPending} onClick={() => save.mutate(getValue())}>
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+type EditorProps<T> = {
+  indexKey: string
+  override?: SettingsOverrideDTO
+  value: T
+}
+
+export const SynonymsEditor = ({ value, ...props }: EditorProps<Settings['synonyms']>) => {
+  const [text, setText] = useState(
+    Object.entries(value ?? {})
+      .map(([word, synonyms]) => `${word}: ${synonyms.join(', ')}`)
+      .join('\n'),
+  )
+
+  const getValue = () =>
+    Object.fromEntries(
+      splitLines(text).flatMap((line) => {
+        const [word, synonyms = ''] = line.split(':')
+        return word.trim() ? [[word.trim(), splitList(synonyms)]] : []
+      }),
+    )
+
+  return (
+    <SettingSection
+      {...props}
+      setting="synonyms"
+      title="Synonyms"
+      description="One word per line, followed by its synonyms (e.g. tee: t-shirt, shirt). Synonyms only apply in one direction."
+      getValue={getValue}
+    >
+      <Textarea rows={6} value={text} onChange={(event) => setText(event.target.value)} />
+    </SettingSection>
+  )
+}
+
+export const StopWordsEditor = ({ value, ...props }: EditorProps<Settings['stopWords']>) => {
+  const [text, setText] = useState((value ?? []).join(', '))
+
+  return (
+    <SettingSection
+      {...props}
+      setting="stopWords"
+      title="Stop words"
+      description="Words ignored in search queries, separated by commas or lines."
+      getValue={() => splitList(text)}
+    >
+      <Textarea rows={3} value={text} onChange={(event) => setText(event.target.value)} />
+    </SettingSection>
+  )
+}
+
+export const RankingRulesEditor = ({ value, ...props }: EditorProps<Settings['rankingRules']>) => {
+  const [text, setText] = useState((value ?? []).join('\n'))
+
+  return (
+    <SettingSection
+      {...props}
+      setting="rankingRules"
+      title="Ranking rules"
+      description="One rule per line, in order of importance (e.g. words, typo, proximity, attribute, sort, exactness, price:asc)."
+      getValue={() => splitLines(text)}
+    >
+      <Textarea rows={7} value={text} onChange={(event) => setText(event.target.value)} />
+    </SettingSection>
+  )
+}
+
+export const TypoToleranceEditor = ({ value, ...props }: EditorProps<Settings['typoTolerance']>) => {
+  const [enabled, setEnabled] = useState(value?.enabled ?? true)
+  const [oneTypo, setOneTypo] = useState(String(value?.minWordSizeForTypos?.oneTypo ?? 5))
+  const [twoTypos, setTwoTypos] = useState(String(value?.minWordSizeForTypos?.twoTypos ?? 9))
+  const [disableOnWords, setDisableOnWords] = useState((value?.disableOnWords ?? []).join(', '))
+  const [disableOnAttributes, setDisableOnAttributes] = useState((value?.disableOnAttributes ?? []).join(', '))
+
+  const getValue = () => ({
+    enabled,
+    minWordSizeForTypos: {
+      oneTypo: Number(oneTypo),
+      twoTypos: Number(twoTypos),
+    },
+    disableOnWords: splitList(disableOnWords),
+    disableOnAttributes: splitList(disableOnAttributes),
+  })
+
+  return (
+    <SettingSection
+      {...props}
+      setting="typoTolerance"
+      title="Typo tolerance"
+      description="Whether matches with typos are returned, and from which word length."
+      getValue={getValue}
+    >
+      <div className="flex items-center gap-x-2">
+        <Switch id="typo-tolerance-enabled" checked={enabled} onCheckedChange={setEnabled} />
+        <Label size="small" htmlFor="typo-tolerance-enabled">
+          Enabled
+        </Label>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="flex flex-col gap-y-2">
+          <Label size="small">Minimum word size for one typo</Label>
+          <Input type="number" min={0} value={oneTypo} onChange={(event) => setOneTypo(event.target.value)} />
+        </div>
+        <div className="flex flex-col gap-y-2">
+          <Label size="small">Minimum word size for two typos</Label>
+          <Input type="number" min={0} value={twoTypos} onChange={(event) => setTwoTypos(event.target.value)} />
+        </div>
+        <div className="flex flex-col gap-y-2">
+          <Label size="small">Disable on words</Label>
+          <Input value={disableOnWords} onChange={(event) => setDisableOnWords(event.target.value)} />
+        </div>
+        <div className="flex flex-col gap-y-2">
+          <Label size="small">Disable on attributes</Label>
+          <Input value={disableOnAttributes} onChange={(event) => setDisableOnAttributes(event.target.value)} />
+        </div>
+      </div>
+    </SettingSection>
+  )
+}
@@ -0,0 +1,189 @@
+import { Button, Checkbox, Heading, Label, Select, StatusBadge, Table, Text, toast } from '@medusajs/ui'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { sdk } from '../lib/sdk'
+import type { IndexStatus, SyncRunDTO, SyncRunMode, SyncRunStatus } from '../../modules/meilisearch/types'
+
+export const SYNC_RUNS_QUERY_KEY = ['meilisearch', 'sync-runs']
+
+// Value of the selects for all indexes and languages, as select items cannot have an empty value
+const ALL = 'all'
+
+// Refresh while a run is in progress
+const ACTIVE_REFETCH_INTERVAL = 2000
+
+const MODES: { value: SyncRunMode; label: string }[] = [
+  { value: 'incremental', label: 'Incremental (changed documents)' },
+  { value: 'full', label: 'Full (all documents and purge)' },
+  { value: 'purge', label: 'Purge orphaned documents' },
+]
+
+const STATUS_COLORS: Record<SyncRunStatus, 'grey' | 'blue' | 'green' | 'red'> = {
+  pending: 'grey',
+  running: 'blue',
+  succeeded: 'green',
+  failed: 'red',
+}
+
+const isActive = (run: SyncRunDTO) => run.status === 'pending' || run.status === 'running'
+
+export const SyncRunForm = ({ indexes }: { indexes: IndexStatus[] }) => {
+  const queryClient = useQueryClient()
+  const [mode, setMode] = useState<SyncRunMode>('incremental')
+  const [indexKeys, setIndexKeys] = useState<string[]>([])
+  const [language, setLanguage] = useState(ALL)
+
+  const enabledIndexKeys = [...new Set(indexes.filter((index) => index.enabled).map((index) => index.indexKey))]
+  const languages = [...new Set(indexes.flatMap((index) => (index.language ? [index.language] : [])))]
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: () =>
+      sdk.client.fetch<{ sync_run: SyncRunDTO }>('/admin/meilisearch/sync', {
+        method: 'POST',
+        body: {
+          mode,
+          indexKeys: indexKeys.length ? indexKeys : undefined,
+          language: language === ALL ? undefined : language,
+        },
+      }),
+    onSuccess: () => {
+      toast.success('Started Meilisearch sync')
+      queryClient.invalidateQueries({ queryKey: SYNC_RUNS_QUERY_KEY })
+    },
+    onError: (err) => {
+      console.error(err)
+      toast.error('Failed to start Meilisearch sync')
+    },
+  })
+
+  const toggleIndexKey = (indexKey: string, checked: boolean) => {
+    setIndexKeys((current) => (checked ? [...current, indexKey] : current.filter((key) => key !== indexKey)))
+  }
+
+  return (
+    <div className="flex flex-col gap-y-4">
+      <Heading level="h2">Sync</Heading>
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex flex-col gap-y-2">
+          <Label size="small">Mode</Label>
+          <Select value={mode} onValueChange={(value) => setMode(value as SyncRunMode)}>
+            <Select.Trigger className="w-64">
+              <Select.Value />
+            </Select.Trigger>
+            <Select.Content>
+              {MODES.map(({ value, label }) => (
+                <Select.Item key={value} value={value}>
+                  {label}
+                </Select.Item>
+              ))}
+            </Select.Content>
+          </Select>
+        </div>
+        {languages.length > 0 && (
+          <div className="flex flex-col gap-y-2">
+            <Label size="small">Language</Label>
+            <Select value={language} onValueChange={setLanguage}>
+              <Select.Trigger className="w-40">
+                <Select.Value />
+              </Select.Trigger>
+              <Select.Content>
+                <Select.Item value={ALL}>All languages</Select.Item>
+                {languages.map((lang) => (
+                  <Select.Item key={lang} value={lang}>
+                    {lang}
+                  </Select.Item>
+                ))}
+              </Select.Content>
+            </Select>
+          </div>
+        )}
+        <Button onClick={() => mutate()} isLoading={isPending} variant="primary">
+          Start sync
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-x-6 gap-y-2">
+        {enabledIndexKeys.map((indexKey) => (
+          <div key={indexKey} className="flex items-center gap-x-2">
+            <Checkbox
+              id={`sync-index-${indexKey}`}
+              checked={indexKeys.includes(indexKey)}
+              onCheckedChange={(checked) => toggleIndexKey(indexKey, checked === true)}
+            />
+            <Label size="small" htmlFor={`sync-index-${indexKey}`}>
+              {indexKey}
+            </Label>
+          </div>
+        ))}
+      </div>
+      <Text size="small" className="text-ui-fg-subtle">
+        All indexes are synced when none is selected.
+      </Text>
+    </div>
+  )
+}
+
+export const SyncRunList = () => {
+  const { data } = useQuery({
+    queryKey: SYNC_RUNS_QUERY_KEY,
+    queryFn: () =>
+      sdk.client.fetch<{ sync_runs: SyncRunDTO[] }>('/admin/meilisearch/sync', { query: { limit: 10, offset: 0 } }),
+    refetchInterval: (query) => (query.state.data?.sync_runs.some(isActive) ? ACTIVE_REFETCH_INTERVAL : false),
+  })
+
+  if (!data?.sync_runs.length) {
+    return null
+  }
+
+  return (
+    <div className="flex flex-col gap-y-4">
+      <Heading level="h2">Recent syncs</Heading>
+      <Table>
+        <Table.Header>
+          <Table.Row>
+            <Table.HeaderCell>Started</Table.HeaderCell>
+            <Table.HeaderCell>Mode</Table.HeaderCell>
+            <Table.HeaderCell>Indexes</Table.HeaderCell>
+            <Table.HeaderCell>Status</Table.HeaderCell>
+            <Table.HeaderCell>Batches</Table.HeaderCell>
+            <Table.HeaderCell>Added</Table.HeaderCell>
+            <Table.HeaderCell>Deleted</Table.HeaderCell>
+            <Table.HeaderCell>Errors</Table.HeaderCell>
+          </Table.Row>
+        </Table.Header>
+        <Table.Body>
+          {data.sync_runs.map((run) => (
+            <Table.Row key={run.id}>
+              <Table.Cell>{new Date(run.started_at ?? run.created_at).toLocaleString()}</Table.Cell>
+              <Table.Cell>{run.mode}</Table.Cell>
+              <Table.Cell>
+                {run.index_keys?.join(', ') ?? 'All'}
+                {run.language ? ` (${run.language})` : ''}
+              </Table.Cell>
+              <Table.Cell>
+                <StatusBadge color={STATUS_COLORS[run.status]}>{run.status}</StatusBadge>
+              </Table.Cell>
+              <Table.Cell>{run.batches_done}</Table.Cell>
+              <Table.Cell>{run.documents_added}</Table.Cell>
+              <Table.Cell>{run.documents_deleted}</Table.Cell>
+              <Table.Cell>
+                {run.errors?.length ? (
+                  <Text
+                    size="small"
+                    className="text-ui-fg-error"
+                    title={run.errors
+                      .map(({ index_key, message }) => (index_key ? `${index_key}: ${message}` : message))
+                      .join('\n')}
+                  >
+                    {run.errors.length}
+                  </Text>
+                ) : (
+                  0
+                )}
+              </Table.Cell>
+            </Table.Row>
+          ))}
+        </Table.Body>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,245 @@
+import { Badge, Button, Container, Heading, Input, Label, Select, Text, toast } from '@medusajs/ui'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { defineRouteConfig } from '@medusajs/admin-sdk'
+import { FormEvent, useState } from 'react'
+import type { Hit, SearchResponse } from 'meilisearch'
+import { sdk } from '../../../lib/sdk'
+import type { IndexStats } from '../../../../modules/meilisearch/types'
+
+// Value of the language select for the default language, as select items cannot have an empty value
+const DEFAULT_LANGUAGE = 'default'
+
+const HIGHLIGHT_PRE_TAG = '<em>'
+const HIGHLIGHT_POST_TAG = '</em>'
+
+// Number of formatted attributes shown per hit
+const MAX_ATTRIBUTES = 4
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+/**
+ * Render a highlighted value as text, so document contents are never rendered as HTML
+ */
+const Highlighted = ({ value }: { value: string }) => (
+  <>
+    {value.split(HIGHLIGHT_PRE_TAG).map((part, i) => {
+      if (i === 0) {
+        return <span key={i}>{part}</span>
+      }
+      const [highlight, ...rest] = part.split(HIGHLIGHT_POST_TAG)
+      return (
+        <span key={i}>
+          <mark className="bg-ui-tag-orange-bg text-ui-fg-base">{highlight}</mark>
+          {rest.join(HIGHLIGHT_POST_TAG)}
+        </span>
+      )
+    })}
+  </>
+)
+
+const SearchHit = ({ hit }: { hit: Hit }) => {
+  const [showDetails, setShowDetails] = useState(false)
+  const formatted = hit._formatted ?? hit
+  const attributes = Object.entries(formatted)
+    .filter(([, value]) => typeof value === 'string' && value)
+    .slice(0, MAX_ATTRIBUTES)
+
+  return (
+    <div className="flex flex-col gap-y-2 rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <Text size="small" weight="plus">
+          {String(hit.id ?? '')}
+        </Text>
+        {hit._rankingScore !== undefined && (
+          <Button size="small" variant="transparent" onClick={() => setShowDetails(!showDetails)}>
+            Score {hit._rankingScore.toFixed(4)}
+          </Button>
+        )}
+      </div>
+      {attributes.map(([attribute, value]) => (
+        <Text key={attribute} size="small">
+          <span className="text-ui-fg-subtle">{attribute}: </span>
+          <Highlighted value={value as string} />
+        </Text>
+      ))}
+      {showDetails && hit._rankingScoreDetails && (
+        <pre className="bg-ui-bg-subtle overflow-auto rounded p-2 text-xs">
+          {JSON.stringify(hit._rankingScoreDetails, null, 2)}
+        </pre>
+      )}
+    </div>
+  )
+}
+
+const FacetDistribution = ({ facets }: { facets: Record<string, Record<string, number>> }) => (
+  <div className="flex flex-col gap-y-4">
+    {Object.entries(facets).map(([facet, distribution]) => (
+      <div key={facet} className="flex flex-col gap-y-2">
+        <Text size="small" weight="plus">
+          {facet}
+        </Text>
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(distribution).map(([value, count]) => (
+            <Badge key={value} size="2xsmall">
+              {value} ({count})
+            </Badge>
+          ))}
+        </div>
+      </div>
+    ))}
+  </div>
+)
+
+const SearchPlaygroundPage = () => {
+  const [indexKey, setIndexKey] = useState<string>()
+  const [language, setLanguage] = useState(DEFAULT_LANGUAGE)
+  const [query, setQuery] = useState('')
+  const [filter, setFilter] = useState('')
+  const [facets, setFacets] = useState('')
+  const [sort, setSort] = useState('')
+
+  const { data: stats } = useQuery({
+    queryKey: ['meilisearch', 'stats'],
+    queryFn: () => sdk.client.fetch<{ stats: IndexStats }>('/admin/meilisearch/stats'),
+  })
+
+  const indexes = stats?.stats.indexes.filter((index) => index.enabled) ?? []
+  const indexKeys = [...new Set(indexes.map((index) => index.indexKey))]
+  const languages = [...new Set(indexes.flatMap((index) => (index.language ? [index.language] : [])))]
+
+  const {
+    mutate,
+    data: results,
+    isPending,
+  } = useMutation({
+    mutationFn: () =>
+      sdk.client.fetch<SearchResponse>('/admin/meilisearch/search', {
+        method: 'POST',
+        body: {
+          indexKey,
+          language: language === DEFAULT_LANGUAGE ? undefined : language,
+          query,
+          filter: filter || undefined,
+          facets: facets ? splitList(facets) : undefined,
+          sort: sort ? splitList(sort) : undefined,
+        },
+      }),
+    onError: (err) => {
+      console.error(err)
+      toast.error(err instanceof Error ? err.message : 'Search failed')
+    },
+  })
+
+  const handleSearch = (event: FormEvent) => {
+    event.preventDefault()
+    if (indexKey) {
+      mutate()
+    }
+  }
+
+  return (
+    <Container className="divide-y p-0">
+      <div className="flex flex-col gap-y-1 px-6 py-4">
+        <Heading level="h1">Search Playground</Heading>
+        <Text className="text-ui-fg-subtle">
+          Run queries against any index to test its settings, without the restrictions of the store search.
+        </Text>
+      </div>
+      <form className="flex flex-col gap-y-4 px-6 py-4" onSubmit={handleSearch}>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex flex-col gap-y-2">
+            <Label size="small">Index</Label>
+            <Select value={indexKey} onValueChange={setIndexKey}>
+              <Select.Trigger className="w-48">
+                <Select.Value placeholder="Select an index" />
+              </Select.Trigger>
+              <Select.Content>
+                {indexKeys.map((key) => (
+                  <Select.Item key={key} value={key}>
+                    {key}
+                  </Select.Item>
+                ))}
+              </Select.Content>
+            </Select>
+          </div>
+          {languages.length > 0 && (
+            <div className="flex flex-col gap-y-2">
+              <Label size="small">Language</Label>
+              <Select value={language} onValueChange={setLanguage}>
+                <Select.Trigger className="w-40">
+                  <Select.Value />
+                </Select.Trigger>
+                <Select.Content>
+                  <Select.Item value={DEFAULT_LANGUAGE}>Default</Select.Item>
+                  {languages.map((lang) => (
+                    <Select.Item key={lang} value={lang}>
+                      {lang}
+                    </Select.Item>
+                  ))}
+                </Select.Content>
+              </Select>
+            </div>
+          )}
+          <div className="flex flex-1 flex-col gap-y-2">
+            <Label size="small">Query</Label>
+            <Input value={query} onChange={(event) => setQuery(event.target.value)} placeholder="Search..." />
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="flex flex-col gap-y-2">
+            <Label size="small">Filter</Label>
+            <Input
+              value={filter}
+              onChange={(event) => setFilter(event.target.value)}
+              placeholder="status = published"
+            />
+          </div>
+          <div className="flex flex-col gap-y-2">
+            <Label size="small">Facets</Label>
+            <Input
+              value={facets}
+              onChange={(event) => setFacets(event.target.value)}
+              placeholder="categories.id, tags"
+            />
+          </div>
+          <div className="flex flex-col gap-y-2">
+            <Label size="small">Sort</Label>
+            <Input value={sort} onChange={(event) => setSort(event.target.value)} placeholder="created_at:desc" />
+          </div>
+        </div>
+        <div>
+          <Button type="submit" isLoading={isPending} disabled={!indexKey} variant="primary">
+            Search
+          </Button>
+        </div>
+      </form>
+      {results && (
+        <div className="flex gap-x-6 px-6 py-4">
+          <div className="flex flex-1 flex-col gap-y-4">
+            <Text size="small" className="text-ui-fg-subtle">
+              {`${results.estimatedTotalHits ?? results.totalHits ?? results.hits.length} hits in ${results.processingTimeMs}ms`}
+            </Text>
+            {results.hits.map((hit, i) => (
+              <SearchHit key={String(hit.id ?? i)} hit={hit} />
+            ))}
+          </div>
+          {results.facetDistribution && (
+            <div className="w-64">
+              <FacetDistribution facets={results.facetDistribution} />
+            </div>
+          )}
+        </div>
+      )}
+    </Container>
+  )
+}
+
+export const config = defineRouteConfig({
+  label: 'Meilisearch Playground',
+})
+
+export default SearchPlaygroundPage
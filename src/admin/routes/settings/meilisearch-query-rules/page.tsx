@@ -0,0 +1,125 @@
+import { Badge, Button, Container, Heading, StatusBadge, Table, Text, toast } from '@medusajs/ui'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { defineRouteConfig } from '@medusajs/admin-sdk'
+import { useState } from 'react'
+import { sdk } from '../../../lib/sdk'
+import { QUERY_RULES_QUERY_KEY, QueryRuleForm } from '../../../components/query-rule-form'
+import type { QueryRuleDTO } from '../../../../modules/meilisearch/types'
+
+const formatPeriod = ({ starts_at, ends_at }: QueryRuleDTO) => {
+  if (!starts_at && !ends_at) {
+    return 'Always'
+  }
+  const format = (date: Date | string) => new Date(date).toLocaleDateString()
+  return `${starts_at ? format(starts_at) : '...'} - ${ends_at ? format(ends_at) : '...'}`
+}
+
+const QueryRulesPage = () => {
+  const queryClient = useQueryClient()
+  // Rule being edited, or `null` while creating a rule
+  const [editing, setEditing] = useState<QueryRuleDTO | null>()
+
+  const { data, isError } = useQuery({
+    queryKey: QUERY_RULES_QUERY_KEY,
+    queryFn: () =>
+      sdk.client.fetch<{ query_rules: QueryRuleDTO[] }>('/admin/meilisearch/query-rules', {
+        query: { limit: 100, offset: 0 },
+      }),
+  })
+
+  const { mutate: deleteRule } = useMutation({
+    mutationFn: (id: string) => sdk.client.fetch(`/admin/meilisearch/query-rules/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      toast.success('Deleted the query rule')
+      queryClient.invalidateQueries({ queryKey: QUERY_RULES_QUERY_KEY })
+    },
+    onError: (err) => {
+      console.error(err)
+      toast.error(err.message)
+    },
+  })
+
+  return (
+    <Container className="divide-y p-0">
+      <div className="flex items-center justify-between px-6 py-4">
+        <div className="flex flex-col gap-y-1">
+          <Heading level="h1">Query Rules</Heading>
+          <Text className="text-ui-fg-subtle">
+            Redirect searches to a page, or show banners alongside their results.
+          </Text>
+        </div>
+        {editing === undefined && (
+          <Button size="small" variant="secondary" onClick={() => setEditing(null)}>
+            Create
+          </Button>
+        )}
+      </div>
+      {editing !== undefined && (
+        <div className="px-6 py-4">
+          <QueryRuleForm key={editing?.id ?? 'new'} rule={editing ?? undefined} onDone={() => setEditing(undefined)} />
+        </div>
+      )}
+      <div className="px-6 py-4">
+        {isError && <Text className="text-ui-fg-error">Failed to load the query rules.</Text>}
+        {data && !data.query_rules.length && <Text className="text-ui-fg-subtle">No query rules yet.</Text>}
+        {!!data?.query_rules.length && (
+          <Table>
+            <Table.Header>
+              <Table.Row>
+                <Table.HeaderCell>Name</Table.HeaderCell>
+                <Table.HeaderCell>Query</Table.HeaderCell>
+                <Table.HeaderCell>Outcome</Table.HeaderCell>
+                <Table.HeaderCell>Period</Table.HeaderCell>
+                <Table.HeaderCell>Status</Table.HeaderCell>
+                <Table.HeaderCell />
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {data.query_rules.map((rule) => (
+                <Table.Row key={rule.id}>
+                  <Table.Cell>{rule.name}</Table.Cell>
+                  <Table.Cell>
+                    <div className="flex items-center gap-x-2">
+                      <Text size="small">{rule.query}</Text>
+                      <Badge size="2xsmall">{rule.match_type}</Badge>
+                    </div>
+                  </Table.Cell>
+                  <Table.Cell>
+                    {[
+                      rule.redirect_url && `Redirect to ${rule.redirect_url}`,
+                      rule.banners?.length && `${rule.banners.length} banner(s)`,
+                    ]
+                      .filter(Boolean)
+                      .join(', ')}
+                  </Table.Cell>
+                  <Table.Cell>{formatPeriod(rule)}</Table.Cell>
+                  <Table.Cell>
+                    <StatusBadge color={rule.enabled ? 'green' : 'grey'}>
+                      {rule.enabled ? 'Enabled' : 'Disabled'}
+                    </StatusBadge>
+                  </Table.Cell>
+                  <Table.Cell>
+                    <div className="flex justify-end gap-x-2">
+                      <Button size="small" variant="transparent" onClick={() => setEditing(rule)}>
+                        Edit
+                      </Button>
+                      <Button size="small" variant="transparent" onClick={() => deleteRule(rule.id)}>
+                        Delete
+                      </Button>
+                    </div>
+                  </Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        )}
+      </div>
+    </Container>
+  )
+}
+
+export const config = defineRouteConfig({
+  label: 'Meilisearch Query Rules',
+})
+
+export default QueryRulesPage
@@ -0,0 +1,99 @@
+import { Container, Heading, Label, Select, Text } from '@medusajs/ui'
+import { useQuery } from '@tanstack/react-query'
+import { defineRouteConfig } from '@medusajs/admin-sdk'
+import { useState } from 'react'
+import type { Settings } from 'meilisearch'
+import { sdk } from '../../../lib/sdk'
+import {
+  RankingRulesEditor,
+  settingsOverridesQueryKey,
+  StopWordsEditor,
+  SynonymsEditor,
+  TypoToleranceEditor,
+} from '../../../components/settings-overrides'
+import type { IndexStats, OverridableSetting, SettingsOverrideDTO } from '../../../../modules/meilisearch/types'
+
+type SettingsOverridesResponse = {
+  settings: Pick<Settings, OverridableSetting>
+  overrides: SettingsOverrideDTO[]
+}
+
+const RelevancePage = () => {
+  const [indexKey, setIndexKey] = useState<string>()
+
+  const { data: stats } = useQuery({
+    queryKey: ['meilisearch', 'stats'],
+    queryFn: () => sdk.client.fetch<{ stats: IndexStats }>('/admin/meilisearch/stats'),
+  })
+
+  const indexKeys = [
+    ...new Set(stats?.stats.indexes.filter((index) => index.enabled).map((index) => index.indexKey) ?? []),
+  ]
+
+  const { data, isError } = useQuery({
+    queryKey: settingsOverridesQueryKey(indexKey),
+    queryFn: () => sdk.client.fetch<SettingsOverridesResponse>(`/admin/meilisearch/indexes/${indexKey}/settings`),
+    enabled: !!indexKey,
+  })
+
+  const getOverride = (setting: OverridableSetting) => data?.overrides.find((override) => override.setting === setting)
+
+  const getProps = <S extends OverridableSetting>(setting: S) => {
+    const override = getOverride(setting)
+    return {
+      indexKey: indexKey!,
+      override,
+      value: (override ? override.value : data?.settings[setting]) as Settings[S],
+    }
+  }
+
+  // Remount the editors when the saved value changes, so they show the value in effect
+  const getKey = (setting: OverridableSetting) =>
+    `${indexKey}-${setting}-${getOverride(setting)?.updated_at ?? 'config'}`
+
+  return (
+    <Container className="divide-y p-0">
+      <div className="flex flex-col gap-y-1 px-6 py-4">
+        <Heading level="h1">Search Relevance</Heading>
+        <Text className="text-ui-fg-subtle">
+          Override the configured synonyms, stop words, ranking rules and typo tolerance of an index. Changes are
+          applied to all languages of the index right away.
+        </Text>
+      </div>
+      <div className="flex flex-col gap-y-2 px-6 py-4">
+        <Label size="small">Index</Label>
+        <Select value={indexKey} onValueChange={setIndexKey}>
+          <Select.Trigger className="w-48">
+            <Select.Value placeholder="Select an index" />
+          </Select.Trigger>
+          <Select.Content>
+            {indexKeys.map((key) => (
+              <Select.Item key={key} value={key}>
+                {key}
+              </Select.Item>
+            ))}
+          </Select.Content>
+        </Select>
+      </div>
+      {isError && (
+        <div className="px-6 py-4">
+          <Text className="text-ui-fg-error">Failed to load the settings of the index.</Text>
+        </div>
+      )}
+      {indexKey && data && (
+        <>
+          <SynonymsEditor key={getKey('synonyms')} {...getProps('synonyms')} />
+          <StopWordsEditor key={getKey('stopWords')} {...getProps('stopWords')} />
+          <RankingRulesEditor key={getKey('rankingRules')} {...getProps('rankingRules')} />
+          <TypoToleranceEditor key={getKey('typoTolerance')} {...getProps('typoTolerance')} />
+        </>
+      )}
+    </Container>
+  )
+}
+
+export const config = defineRouteConfig({
+  label: 'Meilisearch Relevance',
+})
+
+export default RelevancePage
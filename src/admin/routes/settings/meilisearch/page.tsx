@@ -1,35 +1,140 @@
-import { Button, Container, Heading } from '@medusajs/ui'
-import { useMutation } from '@tanstack/react-query'
-import { toast } from '@medusajs/ui'
+import { Badge, Container, Heading, StatusBadge, Table, Text } from '@medusajs/ui'
+import { useQuery } from '@tanstack/react-query'
 import { defineRouteConfig } from '@medusajs/admin-sdk'
+import { sdk } from '../../../lib/sdk'
+import { SyncRunForm, SyncRunList } from '../../../components/sync-runs'
+import type { HealthStatus, IndexStats, IndexStatus } from '../../../../modules/meilisearch/types'
+
+const STATS_QUERY_KEY = ['meilisearch', 'stats']
+const HEALTH_QUERY_KEY = ['meilisearch', 'health']
+
+// Refresh while documents are being indexed
+const REFETCH_INTERVAL = 10000
+
+const formatDate = (date: Date | string) => new Date(date).toLocaleString()
+
+const IndexStatusBadge = ({ index }: { index: IndexStatus }) => {
+  if (!index.enabled) {
+    return <StatusBadge color="grey">Disabled</StatusBadge>
+  }
+  if (!index.exists) {
+    return <StatusBadge color="red">Missing</StatusBadge>
+  }
+  if (index.isIndexing) {
+    return <StatusBadge color="blue">Indexing</StatusBadge>
+  }
+  if (index.rebuildReasons.length) {
+    return (
+      <StatusBadge color="orange" title={index.rebuildReasons.join('\n')}>
+        Rebuild required
+      </StatusBadge>
+    )
+  }
+  return <StatusBadge color="green">Ready</StatusBadge>
+}
+
+const LastSync = ({ index }: { index: IndexStatus }) => {
+  const { lastSync } = index
+  if (!lastSync) {
+    return <Text className="text-ui-fg-subtle">Never</Text>
+  }
+
+  return (
+    <div className="flex flex-col">
+      <Text size="small">{formatDate(lastSync.synced_at)}</Text>
+      {lastSync.status === 'succeeded' ? (
+        <Text size="small" className="text-ui-fg-subtle">
+          {lastSync.document_count} documents
+        </Text>
+      ) : (
+        <Text size="small" className="text-ui-fg-error" title={lastSync.error ?? undefined}>
+          Failed
+        </Text>
+      )}
+    </div>
+  )
+}
 
 const SyncPage = () => {
-  const { mutate, isPending } = useMutation({
-    mutationFn: () =>
-      fetch('/admin/meilisearch/sync', {
-        method: 'POST',
-      }),
-    onSuccess: () => {
-      toast.success('Successfully triggered data sync to Meilisearch')
-    },
-    onError: (err) => {
-      console.error(err)
-      toast.error('Failed to sync data to Meilisearch')
-    },
+  const { data: health } = useQuery({
+    queryKey: HEALTH_QUERY_KEY,
+    queryFn: () => sdk.client.fetch<{ health: HealthStatus }>('/admin/meilisearch/health'),
+    refetchInterval: REFETCH_INTERVAL,
   })
 
-  const handleSync = () => {
-    mutate()
-  }
+  const {
+    data: stats,
+    isLoading,
+    isError,
+  } = useQuery({
+    queryKey: STATS_QUERY_KEY,
+    queryFn: () => sdk.client.fetch<{ stats: IndexStats }>('/admin/meilisearch/stats'),
+    refetchInterval: REFETCH_INTERVAL,
+  })
 
   return (
-    <Container>
-      <div className="flex flex-col gap-y-4">
-        <Heading level="h1">Meilisearch Sync</Heading>
-        <p className="text-gray-500">Manually trigger synchronization with Meilisearch.</p>
-        <Button onClick={handleSync} isLoading={isPending} variant="primary">
-          Sync Now
-        </Button>
+    <Container className="divide-y p-0">
+      <div className="flex items-center justify-between px-6 py-4">
+        <div className="flex flex-col gap-y-1">
+          <Heading level="h1">Meilisearch</Heading>
+          <Text className="text-ui-fg-subtle">Status of the configured indexes.</Text>
+        </div>
+        <div>
+          {health && (
+            <StatusBadge color={health.health.status === 'available' ? 'green' : 'red'} title={health.health.error}>
+              {health.health.status === 'available'
+                ? `Available${health.health.version ? ` (v${health.health.version})` : ''}`
+                : 'Unavailable'}
+            </StatusBadge>
+          )}
+        </div>
+      </div>
+      <div className="px-6 py-4">
+        {isLoading && <Text className="text-ui-fg-subtle">Loading indexes...</Text>}
+        {isError && <Text className="text-ui-fg-error">Failed to load the index stats from Meilisearch.</Text>}
+        {stats && (
+          <Table>
+            <Table.Header>
+              <Table.Row>
+                <Table.HeaderCell>Index</Table.HeaderCell>
+                <Table.HeaderCell>Type</Table.HeaderCell>
+                <Table.HeaderCell>Documents</Table.HeaderCell>
+                <Table.HeaderCell>Status</Table.HeaderCell>
+                <Table.HeaderCell>Last sync</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {stats.stats.indexes.map((index) => (
+                <Table.Row key={index.indexUid}>
+                  <Table.Cell>
+                    <div className="flex items-center gap-x-2">
+                      <Text size="small" weight="plus">
+                        {index.indexUid}
+                      </Text>
+                      {index.language && <Badge size="2xsmall">{index.language}</Badge>}
+                    </div>
+                  </Table.Cell>
+                  <Table.Cell>{index.type ?? '-'}</Table.Cell>
+                  <Table.Cell>{index.numberOfDocuments}</Table.Cell>
+                  <Table.Cell>
+                    <IndexStatusBadge index={index} />
+                  </Table.Cell>
+                  <Table.Cell>
+                    <LastSync index={index} />
+                  </Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        )}
+      </div>
+      {stats && (
+        <div className="px-6 py-4">
+          <SyncRunForm indexes={stats.stats.indexes} />
+        </div>
+      )}
+      <div className="px-6 py-4">
+        <SyncRunList />
       </div>
     </Container>
   )
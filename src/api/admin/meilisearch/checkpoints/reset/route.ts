@@ -0,0 +1,22 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework'
+import { IndexCheckpointDTO, MEILISEARCH_MODULE, MeiliSearchService } from '../../../../../modules/meilisearch'
+import z from 'zod'
+
+export const AdminResetCheckpointsSchema = z.object({
+  indexKeys: z.array(z.string()).optional(),
+})
+
+export type AdminResetCheckpointsParams = z.infer<typeof AdminResetCheckpointsSchema>
+
+/**
+ * Reset the sync checkpoints, so the next incremental sync rebuilds the indexes from scratch
+ */
+export async function POST(
+  req: MedusaRequest<AdminResetCheckpointsParams>,
+  res: MedusaResponse<{ checkpoints: IndexCheckpointDTO[] }>,
+) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const checkpoints = await meilisearchService.resetCheckpoints(req.validatedBody.indexKeys)
+
+  res.json({ checkpoints })
+}
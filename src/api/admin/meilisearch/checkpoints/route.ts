@@ -0,0 +1,9 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework'
+import { IndexCheckpointDTO, MEILISEARCH_MODULE, MeiliSearchService } from '../../../../modules/meilisearch'
+
+export async function GET(req: MedusaRequest, res: MedusaResponse<{ checkpoints: IndexCheckpointDTO[] }>) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const checkpoints = await meilisearchService.listCheckpoints()
+
+  res.json({ checkpoints })
+}
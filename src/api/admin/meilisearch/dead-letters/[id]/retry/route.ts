@@ -0,0 +1,19 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework'
+import { DeadLetterDTO, MEILISEARCH_MODULE, MeiliSearchService } from '../../../../../../modules/meilisearch'
+
+/**
+ * Retry a dead letter. The dead letter is removed when the write succeeds, and returned with the new error otherwise.
+ */
+export async function POST(
+  req: MedusaRequest,
+  res: MedusaResponse<{ id: string; succeeded: boolean; dead_letter: DeadLetterDTO | null }>,
+) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const deadLetter = await meilisearchService.retryDeadLetter(req.params.id, req.scope)
+
+  res.json({
+    id: req.params.id,
+    succeeded: !deadLetter,
+    dead_letter: deadLetter,
+  })
+}
@@ -0,0 +1,16 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework'
+import { MEILISEARCH_MODULE, MeiliSearchService } from '../../../../../modules/meilisearch'
+
+/**
+ * Discard a dead letter without retrying it
+ */
+export async function DELETE(req: MedusaRequest, res: MedusaResponse) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  await meilisearchService.discardDeadLetter(req.params.id)
+
+  res.json({
+    id: req.params.id,
+    object: 'meilisearch_dead_letter',
+    deleted: true,
+  })
+}
@@ -0,0 +1,35 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework'
+import { DeadLetterDTO, MEILISEARCH_MODULE, MeiliSearchService } from '../../../../modules/meilisearch'
+import z from 'zod'
+
+export const AdminListDeadLettersSchema = z.object({
+  index_key: z.string().optional(),
+  operation: z.enum(['upsert', 'delete']).optional(),
+  limit: z.coerce.number().default(20),
+  offset: z.coerce.number().default(0),
+})
+
+export type AdminListDeadLettersParams = z.infer<typeof AdminListDeadLettersSchema>
+
+export async function GET(
+  req: MedusaRequest<any, AdminListDeadLettersParams>,
+  res: MedusaResponse<{ dead_letters: DeadLetterDTO[]; count: number; limit: number; offset: number }>,
+) {
+  const { index_key, operation, limit, offset } = req.validatedQuery
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+
+  const [deadLetters, count] = await meilisearchService.listDeadLetters(
+    {
+      ...(index_key ? { index_key } : {}),
+      ...(operation ? { operation } : {}),
+    },
+    { skip: offset, take: limit },
+  )
+
+  res.json({
+    dead_letters: deadLetters,
+    count,
+    limit,
+    offset,
+  })
+}
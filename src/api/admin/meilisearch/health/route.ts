@@ -0,0 +1,9 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework'
+import { HealthStatus, MEILISEARCH_MODULE, MeiliSearchService } from '../../../../modules/meilisearch'
+
+export async function GET(req: MedusaRequest, res: MedusaResponse<{ health: HealthStatus }>) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const health = await meilisearchService.getHealth()
+
+  res.json({ health })
+}
@@ -0,0 +1,26 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework'
+import { MedusaError } from '@medusajs/utils'
+import { MEILISEARCH_MODULE, MeiliSearchService, OverridableSetting } from '../../../../../../../modules/meilisearch'
+import { OVERRIDABLE_SETTINGS } from '../route'
+
+/**
+ * Remove the override of a setting, restoring the configured value
+ */
+export async function DELETE(req: MedusaRequest, res: MedusaResponse) {
+  const { indexKey, setting } = req.params
+  if (!OVERRIDABLE_SETTINGS.includes(setting as OverridableSetting)) {
+    throw new MedusaError(MedusaError.Types.INVALID_DATA, `Setting ${setting} cannot be overridden`)
+  }
+
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const override = await meilisearchService.deleteSettingsOverride(indexKey, setting as OverridableSetting)
+  if (!override) {
+    throw new MedusaError(MedusaError.Types.NOT_FOUND, `Setting ${setting} of index ${indexKey} is not overridden`)
+  }
+
+  res.json({
+    id: override.id,
+    object: 'meilisearch_settings_override',
+    deleted: true,
+  })
+}
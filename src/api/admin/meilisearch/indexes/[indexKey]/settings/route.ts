@@ -0,0 +1,95 @@
+import { AuthenticatedMedusaRequest, MedusaRequest, MedusaResponse } from '@medusajs/framework'
+import { MedusaError } from '@medusajs/utils'
+import { Settings } from 'meilisearch'
+import {
+  MEILISEARCH_MODULE,
+  MeiliSearchService,
+  OverridableSetting,
+  SettingsOverrideDTO,
+} from '../../../../../../modules/meilisearch'
+import z from 'zod'
+
+export const OVERRIDABLE_SETTINGS: OverridableSetting[] = ['synonyms', 'stopWords', 'rankingRules', 'typoTolerance']
+
+/**
+ * Accepted values per setting, the request body is validated against the schema of its setting
+ */
+const SETTING_VALUE_SCHEMAS: Record<OverridableSetting, z.ZodType<SettingsOverrideDTO['value']>> = {
+  synonyms: z.record(z.array(z.string())),
+  stopWords: z.array(z.string()),
+  rankingRules: z.array(z.string()).min(1),
+  typoTolerance: z
+    .object({
+      enabled: z.boolean().optional(),
+      minWordSizeForTypos: z
+        .object({
+          oneTypo: z.number().int().min(0).optional(),
+          twoTypos: z.number().int().min(0).optional(),
+        })
+        .optional(),
+      disableOnWords: z.array(z.string()).optional(),
+      disableOnAttributes: z.array(z.string()).optional(),
+      disableOnNumbers: z.boolean().optional(),
+    })
+    .strict(),
+}
+
+export const AdminUpsertSettingsOverrideSchema = z.object({
+  setting: z.enum(['synonyms', 'stopWords', 'rankingRules', 'typoTolerance']),
+  value: z.unknown(),
+})
+
+export type AdminUpsertSettingsOverrideParams = z.infer<typeof AdminUpsertSettingsOverrideSchema>
+
+/**
+ * List the overridden settings of an index, along with the configured values they replace
+ */
+export async function GET(
+  req: MedusaRequest,
+  res: MedusaResponse<{ settings: Pick<Settings, OverridableSetting>; overrides: SettingsOverrideDTO[] }>,
+) {
+  const { indexKey } = req.params
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+
+  const indexConfig = meilisearchService.getIndexConfig(indexKey)
+  if (!indexConfig) {
+    throw new MedusaError(MedusaError.Types.NOT_FOUND, `Index ${indexKey} is not configured`)
+  }
+
+  const indexSettings = indexConfig.indexSettings ?? {}
+  const overrides = await meilisearchService.listSettingsOverrides(indexKey)
+
+  res.json({
+    settings: Object.fromEntries(OVERRIDABLE_SETTINGS.map((setting) => [setting, indexSettings[setting]])),
+    overrides,
+  })
+}
+
+/**
+ * Override a setting of an index. The settings of the index are updated right away.
+ */
+export async function POST(
+  req: AuthenticatedMedusaRequest<AdminUpsertSettingsOverrideParams>,
+  res: MedusaResponse<{ settings_override: SettingsOverrideDTO }>,
+) {
+  const { setting } = req.validatedBody
+  const result = SETTING_VALUE_SCHEMAS[setting].safeParse(req.validatedBody.value)
+  if (!result.success) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      `Invalid value for ${setting}: ${result.error.issues
+        .map(({ path, message }) => (path.length ? `${path.join('.')}: ${message}` : message))
+        .join(', ')}`,
+    )
+  }
+
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const override = await meilisearchService.upsertSettingsOverride(
+    req.params.indexKey,
+    setting,
+    result.data,
+    req.auth_context?.actor_id,
+  )
+
+  res.json({ settings_override: override })
+}
@@ -0,0 +1,36 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework'
+import { MEILISEARCH_MODULE, MeiliSearchService, MerchandisingRuleDTO } from '../../../../../modules/meilisearch'
+import { AdminCreateMerchandisingRuleSchema } from '../route'
+import z from 'zod'
+
+export const AdminUpdateMerchandisingRuleSchema = AdminCreateMerchandisingRuleSchema.partial()
+
+export type AdminUpdateMerchandisingRuleParams = z.infer<typeof AdminUpdateMerchandisingRuleSchema>
+
+export async function GET(req: MedusaRequest, res: MedusaResponse<{ merchandising_rule: MerchandisingRuleDTO }>) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const rule = await meilisearchService.retrieveMerchandisingRule(req.params.id)
+
+  res.json({ merchandising_rule: rule })
+}
+
+export async function POST(
+  req: MedusaRequest<AdminUpdateMerchandisingRuleParams>,
+  res: MedusaResponse<{ merchandising_rule: MerchandisingRuleDTO }>,
+) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const rule = await meilisearchService.updateMerchandisingRule(req.params.id, req.validatedBody)
+
+  res.json({ merchandising_rule: rule })
+}
+
+export async function DELETE(req: MedusaRequest, res: MedusaResponse) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  await meilisearchService.deleteMerchandisingRule(req.params.id)
+
+  res.json({
+    id: req.params.id,
+    object: 'meilisearch_merchandising_rule',
+    deleted: true,
+  })
+}
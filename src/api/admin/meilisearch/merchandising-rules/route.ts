@@ -0,0 +1,56 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework'
+import { MEILISEARCH_MODULE, MeiliSearchService, MerchandisingRuleDTO } from '../../../../modules/meilisearch'
+import z from 'zod'
+import { SearchFiltersSchema } from '../../../utils/validators'
+
+export const AdminCreateMerchandisingRuleSchema = z.object({
+  name: z.string().min(1),
+  query: z.string(),
+  match_type: z.enum(['exact', 'contains']).default('exact'),
+  action: z.enum(['pin', 'boost', 'bury', 'hide']),
+  product_ids: z.array(z.string()).nullish(),
+  filters: SearchFiltersSchema.nullish(),
+  position: z.number().int().min(1).nullish(),
+  weight: z.number().positive().nullish(),
+  enabled: z.boolean().default(true),
+  starts_at: z.coerce.date().nullish(),
+  ends_at: z.coerce.date().nullish(),
+})
+
+export type AdminCreateMerchandisingRuleParams = z.infer<typeof AdminCreateMerchandisingRuleSchema>
+
+export const AdminListMerchandisingRulesSchema = z.object({
+  limit: z.coerce.number().default(20),
+  offset: z.coerce.number().default(0),
+})
+
+export type AdminListMerchandisingRulesParams = z.infer<typeof AdminListMerchandisingRulesSchema>
+
+export async function GET(
+  req: MedusaRequest<any, AdminListMerchandisingRulesParams>,
+  res: MedusaResponse<{ merchandising_rules: MerchandisingRuleDTO[]; count: number; limit: number; offset: number }>,
+) {
+  const { limit, offset } = req.validatedQuery
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const [rules, count] = await meilisearchService.listMerchandisingRules({ skip: offset, take: limit })
+
+  res.json({
+    merchandising_rules: rules,
+    count,
+    limit,
+    offset,
+  })
+}
+
+/**
+ * Create a merchandising rule, which applies to the store search right away
+ */
+export async function POST(
+  req: MedusaRequest<AdminCreateMerchandisingRuleParams>,
+  res: MedusaResponse<{ merchandising_rule: MerchandisingRuleDTO }>,
+) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const rule = await meilisearchService.createMerchandisingRule(req.validatedBody)
+
+  res.json({ merchandising_rule: rule })
+}
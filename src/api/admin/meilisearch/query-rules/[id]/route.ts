@@ -0,0 +1,36 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework'
+import { MEILISEARCH_MODULE, MeiliSearchService, QueryRuleDTO } from '../../../../../modules/meilisearch'
+import { AdminCreateQueryRuleSchema } from '../route'
+import z from 'zod'
+
+export const AdminUpdateQueryRuleSchema = AdminCreateQueryRuleSchema.partial()
+
+export type AdminUpdateQueryRuleParams = z.infer<typeof AdminUpdateQueryRuleSchema>
+
+export async function GET(req: MedusaRequest, res: MedusaResponse<{ query_rule: QueryRuleDTO }>) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const rule = await meilisearchService.retrieveQueryRule(req.params.id)
+
+  res.json({ query_rule: rule })
+}
+
+export async function POST(
+  req: MedusaRequest<AdminUpdateQueryRuleParams>,
+  res: MedusaResponse<{ query_rule: QueryRuleDTO }>,
+) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const rule = await meilisearchService.updateQueryRule(req.params.id, req.validatedBody)
+
+  res.json({ query_rule: rule })
+}
+
+export async function DELETE(req: MedusaRequest, res: MedusaResponse) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  await meilisearchService.deleteQueryRule(req.params.id)
+
+  res.json({
+    id: req.params.id,
+    object: 'meilisearch_query_rule',
+    deleted: true,
+  })
+}
@@ -0,0 +1,65 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework'
+import { MEILISEARCH_MODULE, MeiliSearchService, QueryRuleDTO } from '../../../../modules/meilisearch'
+import z from 'zod'
+
+// Relative paths of the storefront, or absolute URLs
+const url = z.string().regex(/^(\/|https?:\/\/)/, 'Must be a path starting with / or an http(s) URL')
+
+const banner = z
+  .object({
+    title: z.string().optional(),
+    body: z.string().optional(),
+    image_url: url.optional(),
+    link_url: url.optional(),
+    position: z.enum(['top', 'bottom']).optional(),
+  })
+  .strict()
+
+export const AdminCreateQueryRuleSchema = z.object({
+  name: z.string().min(1),
+  query: z.string(),
+  match_type: z.enum(['exact', 'contains']).default('exact'),
+  redirect_url: url.nullish(),
+  banners: z.array(banner).nullish(),
+  enabled: z.boolean().default(true),
+  starts_at: z.coerce.date().nullish(),
+  ends_at: z.coerce.date().nullish(),
+})
+
+export type AdminCreateQueryRuleParams = z.infer<typeof AdminCreateQueryRuleSchema>
+
+export const AdminListQueryRulesSchema = z.object({
+  limit: z.coerce.number().default(20),
+  offset: z.coerce.number().default(0),
+})
+
+export type AdminListQueryRulesParams = z.infer<typeof AdminListQueryRulesSchema>
+
+export async function GET(
+  req: MedusaRequest<any, AdminListQueryRulesParams>,
+  res: MedusaResponse<{ query_rules: QueryRuleDTO[]; count: number; limit: number; offset: number }>,
+) {
+  const { limit, offset } = req.validatedQuery
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const [rules, count] = await meilisearchService.listQueryRules({ skip: offset, take: limit })
+
+  res.json({
+    query_rules: rules,
+    count,
+    limit,
+    offset,
+  })
+}
+
+/**
+ * Create a query rule, which applies to the store search right away
+ */
+export async function POST(
+  req: MedusaRequest<AdminCreateQueryRuleParams>,
+  res: MedusaResponse<{ query_rule: QueryRuleDTO }>,
+) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const rule = await meilisearchService.createQueryRule(req.validatedBody)
+
+  res.json({ query_rule: rule })
+}
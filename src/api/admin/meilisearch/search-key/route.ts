@@ -0,0 +1,20 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework'
+import { MEILISEARCH_MODULE, MeiliSearchService, SearchKeyInfo } from '../../../../modules/meilisearch'
+
+export async function GET(req: MedusaRequest, res: MedusaResponse<{ search_key: SearchKeyInfo | null }>) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const searchKey = await meilisearchService.getSearchKey()
+
+  res.json({ search_key: searchKey })
+}
+
+/**
+ * Create the parent key of the tenant tokens, or rotate it when it exists.
+ * Tenant tokens issued before a rotation are no longer accepted.
+ */
+export async function POST(req: MedusaRequest, res: MedusaResponse<{ search_key: SearchKeyInfo }>) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const searchKey = await meilisearchService.rotateSearchKey()
+
+  res.json({ search_key: searchKey })
+}
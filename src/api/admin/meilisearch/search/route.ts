@@ -0,0 +1,69 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework'
+import { MedusaError } from '@medusajs/utils'
+import { MEILISEARCH_MODULE, MeiliSearchService } from '../../../../modules/meilisearch'
+import { SearchResponse } from 'meilisearch'
+import z from 'zod'
+import { SearchFiltersSchema } from '../../../utils/validators'
+
+export const AdminSearchSchema = z.object({
+  indexKey: z.string(),
+  language: z.string().optional(),
+  query: z.string().default(''),
+  /**
+   * Raw Meilisearch filter expression
+   */
+  filter: z.string().optional(),
+  filters: SearchFiltersSchema.optional(),
+  facets: z.array(z.string()).optional(),
+  sort: z.array(z.string()).optional(),
+  limit: z.number().default(20),
+  offset: z.number().default(0),
+  attributesToHighlight: z.array(z.string()).default(['*']),
+  showRankingScoreDetails: z.boolean().default(true),
+})
+
+export type AdminSearchParams = z.infer<typeof AdminSearchSchema>
+
+/**
+ * Search any configured index, without the restrictions of the store search (e.g. sales channels),
+ * to test the index settings
+ */
+export async function POST(req: MedusaRequest<AdminSearchParams>, res: MedusaResponse<SearchResponse>) {
+  const {
+    indexKey,
+    language,
+    query,
+    filter,
+    filters,
+    facets,
+    sort,
+    limit,
+    offset,
+    attributesToHighlight,
+    showRankingScoreDetails,
+  } = req.validatedBody
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+
+  if (!meilisearchService.getIndexConfig(indexKey)) {
+    throw new MedusaError(MedusaError.Types.NOT_FOUND, `Index ${indexKey} is not configured`)
+  }
+
+  const results = await meilisearchService.search(indexKey, query, {
+    language,
+    filter,
+    filters,
+    facets,
+    sort,
+    paginationOptions: {
+      limit,
+      offset,
+    },
+    additionalOptions: {
+      attributesToHighlight,
+      showRankingScore: true,
+      showRankingScoreDetails,
+    },
+  })
+
+  res.json(results)
+}
@@ -0,0 +1,9 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework'
+import { IndexStats, MEILISEARCH_MODULE, MeiliSearchService } from '../../../../modules/meilisearch'
+
+export async function GET(req: MedusaRequest, res: MedusaResponse<{ stats: IndexStats }>) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const stats = await meilisearchService.getStats()
+
+  res.json({ stats })
+}
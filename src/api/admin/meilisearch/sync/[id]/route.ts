@@ -0,0 +1,9 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework'
+import { MEILISEARCH_MODULE, MeiliSearchService, SyncRunDTO } from '../../../../../modules/meilisearch'
+
+export async function GET(req: MedusaRequest, res: MedusaResponse<{ sync_run: SyncRunDTO }>) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const syncRun = await meilisearchService.retrieveSyncRun(req.params.id)
+
+  res.json({ sync_run: syncRun })
+}
@@ -1,13 +1,52 @@
 import { MedusaRequest, MedusaResponse } from '@medusajs/framework'
 import { Modules } from '@medusajs/utils'
+import { MEILISEARCH_MODULE, MeiliSearchService, SyncRunDTO } from '../../../../modules/meilisearch'
+import z from 'zod'
+
+export const AdminSyncSchema = z.object({
+  indexKeys: z.array(z.string()).optional(),
+  language: z.string().optional(),
+  mode: z.enum(['incremental', 'full', 'purge']).default('full'),
+})
+
+export type AdminSyncParams = z.infer<typeof AdminSyncSchema>
+
+export const AdminListSyncRunsSchema = z.object({
+  limit: z.coerce.number().default(20),
+  offset: z.coerce.number().default(0),
+})
+
+export type AdminListSyncRunsParams = z.infer<typeof AdminListSyncRunsSchema>
+
+/**
+ * Start a sync run, which is executed in the background. Its progress is returned by `GET /admin/meilisearch/sync/:id`.
+ */
+export async function POST(req: MedusaRequest<AdminSyncParams>, res: MedusaResponse<{ sync_run: SyncRunDTO }>) {
+  const { indexKeys, language, mode } = req.validatedBody
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const syncRun = await meilisearchService.createSyncRun({ mode, index_keys: indexKeys, language })
 
-export async function POST(req: MedusaRequest, res: MedusaResponse) {
   const eventService = req.scope.resolve(Modules.EVENT_BUS)
   await eventService.emit({
     name: 'meilisearch.sync',
-    data: {},
+    data: { id: syncRun.id },
   })
-  res.send({
-    message: 'Syncing data to Meilisearch',
+
+  res.json({ sync_run: syncRun })
+}
+
+export async function GET(
+  req: MedusaRequest<any, AdminListSyncRunsParams>,
+  res: MedusaResponse<{ sync_runs: SyncRunDTO[]; count: number; limit: number; offset: number }>,
+) {
+  const { limit, offset } = req.validatedQuery
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+  const [syncRuns, count] = await meilisearchService.listSyncRuns({ skip: offset, take: limit })
+
+  res.json({
+    sync_runs: syncRuns,
+    count,
+    limit,
+    offset,
   })
 }
@@ -1,5 +1,23 @@
-import { defineMiddlewares, validateAndTransformQuery } from '@medusajs/framework'
+import {
+  authenticate,
+  defineMiddlewares,
+  validateAndTransformBody,
+  validateAndTransformQuery,
+} from '@medusajs/framework'
 import { StoreSearchProductsSchema } from './store/meilisearch/hits/route'
+import { StoreSuggestSchema } from './store/meilisearch/suggest/route'
+import { AdminResetCheckpointsSchema } from './admin/meilisearch/checkpoints/reset/route'
+import { AdminListDeadLettersSchema } from './admin/meilisearch/dead-letters/route'
+import { AdminListSyncRunsSchema, AdminSyncSchema } from './admin/meilisearch/sync/route'
+import { AdminSearchSchema } from './admin/meilisearch/search/route'
+import {
+  AdminCreateMerchandisingRuleSchema,
+  AdminListMerchandisingRulesSchema,
+} from './admin/meilisearch/merchandising-rules/route'
+import { AdminUpdateMerchandisingRuleSchema } from './admin/meilisearch/merchandising-rules/[id]/route'
+import { AdminCreateQueryRuleSchema, AdminListQueryRulesSchema } from './admin/meilisearch/query-rules/route'
+import { AdminUpdateQueryRuleSchema } from './admin/meilisearch/query-rules/[id]/route'
+import { AdminUpsertSettingsOverrideSchema } from './admin/meilisearch/indexes/[indexKey]/settings/route'
 
 export default defineMiddlewares({
   routes: [
@@ -8,5 +26,76 @@ export default defineMiddlewares({
       matcher: '/store/meilisearch/hits',
       middlewares: [validateAndTransformQuery(StoreSearchProductsSchema, {})],
     },
+    {
+      methods: ['GET'],
+      matcher: '/store/meilisearch/suggest',
+      middlewares: [validateAndTransformQuery(StoreSuggestSchema, {})],
+    },
+    {
+      methods: ['GET'],
+      matcher: '/store/meilisearch/token',
+      // Logged in customers receive tokens for the products of their customer groups
+      middlewares: [authenticate('customer', ['session', 'bearer'], { allowUnauthenticated: true })],
+    },
+    {
+      methods: ['POST'],
+      matcher: '/admin/meilisearch/checkpoints/reset',
+      middlewares: [validateAndTransformBody(AdminResetCheckpointsSchema)],
+    },
+    {
+      methods: ['GET'],
+      matcher: '/admin/meilisearch/dead-letters',
+      middlewares: [validateAndTransformQuery(AdminListDeadLettersSchema, {})],
+    },
+    {
+      methods: ['POST'],
+      matcher: '/admin/meilisearch/sync',
+      middlewares: [validateAndTransformBody(AdminSyncSchema)],
+    },
+    {
+      methods: ['GET'],
+      matcher: '/admin/meilisearch/sync',
+      middlewares: [validateAndTransformQuery(AdminListSyncRunsSchema, {})],
+    },
+    {
+      methods: ['POST'],
+      matcher: '/admin/meilisearch/search',
+      middlewares: [validateAndTransformBody(AdminSearchSchema)],
+    },
+    {
+      methods: ['POST'],
+      matcher: '/admin/meilisearch/indexes/:indexKey/settings',
+      middlewares: [validateAndTransformBody(AdminUpsertSettingsOverrideSchema)],
+    },
+    {
+      methods: ['GET'],
+      matcher: '/admin/meilisearch/merchandising-rules',
+      middlewares: [validateAndTransformQuery(AdminListMerchandisingRulesSchema, {})],
+    },
+    {
+      methods: ['POST'],
+      matcher: '/admin/meilisearch/merchandising-rules',
+      middlewares: [validateAndTransformBody(AdminCreateMerchandisingRuleSchema)],
+    },
+    {
+      methods: ['POST'],
+      matcher: '/admin/meilisearch/merchandising-rules/:id',
+      middlewares: [validateAndTransformBody(AdminUpdateMerchandisingRuleSchema)],
+    },
+    {
+      methods: ['GET'],
+      matcher: '/admin/meilisearch/query-rules',
+      middlewares: [validateAndTransformQuery(AdminListQueryRulesSchema, {})],
+    },
+    {
+      methods: ['POST'],
+      matcher: '/admin/meilisearch/query-rules',
+      middlewares: [validateAndTransformBody(AdminCreateQueryRuleSchema)],
+    },
+    {
+      methods: ['POST'],
+      matcher: '/admin/meilisearch/query-rules/:id',
+      middlewares: [validateAndTransformBody(AdminUpdateQueryRuleSchema)],
+    },
   ],
 })
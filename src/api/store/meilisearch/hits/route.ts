@@ -1,46 +1,82 @@
-import { MedusaRequest, MedusaResponse } from '@medusajs/framework'
-import { MEILISEARCH_MODULE, MeiliSearchService } from '../../../../modules/meilisearch'
-import { SearchResponse } from 'meilisearch'
+import { MedusaResponse, MedusaStoreRequest } from '@medusajs/framework'
+import { MEILISEARCH_MODULE, MeiliSearchService, StoreSearchResponse } from '../../../../modules/meilisearch'
 import z from 'zod'
+import { SearchFiltersQuerySchema } from '../../../utils/validators'
+
+const stringArray = z.preprocess(
+  (value) => (typeof value === 'string' ? value.split(',').filter(Boolean) : value),
+  z.array(z.string()),
+)
 
 export const StoreSearchProductsSchema = z.object({
   query: z.string(),
   limit: z.coerce.number().default(10),
   offset: z.coerce.number().default(0),
   language: z.string().optional(),
+  filters: SearchFiltersQuerySchema.optional(),
+  facets: stringArray.optional(),
+  sort: stringArray.optional(),
+  attributesToHighlight: stringArray.optional(),
+  highlightPreTag: z.string().optional(),
+  highlightPostTag: z.string().optional(),
+  attributesToCrop: stringArray.optional(),
+  cropLength: z.coerce.number().optional(),
+  cropMarker: z.string().optional(),
 })
 
 export type StoreSearchProductsParams = z.infer<typeof StoreSearchProductsSchema>
 
-export async function GET(req: MedusaRequest<any, StoreSearchProductsParams>, res: MedusaResponse<SearchResponse>) {
-  const { query, language, limit, offset } = req.validatedQuery
+export async function GET(
+  req: MedusaStoreRequest<any, StoreSearchProductsParams>,
+  res: MedusaResponse<StoreSearchResponse>,
+) {
+  const { query, language, limit, offset, filters, facets, sort, ...highlightOptions } = req.validatedQuery
   const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
 
-  const indexes = await meilisearchService.getIndexesByType('products')
-  const results = await Promise.all(
-    indexes.map(async (indexKey) => {
-      return await meilisearchService.search(indexKey, query, {
-        language,
-        paginationOptions: {
-          limit,
-          offset,
-        },
-      })
-    }),
-  )
-
-  // Merge results from all indexes
-  const mergedResults = results.reduce(
-    (acc, result) => {
-      return {
-        hits: [...acc.hits, ...result.hits],
-        estimatedTotalHits: (acc.estimatedTotalHits || 0) + (result.estimatedTotalHits || 0),
-        processingTimeMs: Math.max(acc.processingTimeMs, result.processingTimeMs),
-        query: result.query,
-      }
+  const [{ redirect, banners }, merchandisingRules] = await Promise.all([
+    meilisearchService.resolveQueryRules(query),
+    meilisearchService.getApplicableMerchandisingRules(query),
+  ])
+  if (redirect) {
+    // The storefront takes the customer to the redirect, so the products are not searched
+    res.json({
+      hits: [],
+      query,
+      processingTimeMs: 0,
+      limit,
+      offset,
+      totalHits: 0,
+      totalPages: 0,
+      facetDistribution: {},
+      facetStats: {},
+      redirect,
+      banners,
+    })
+    return
+  }
+
+  const indexes = meilisearchService.getBaseIndexesByType('products')
+  const results = await meilisearchService.federatedSearch(indexes, query, {
+    language,
+    filters,
+    facets,
+    sort,
+    // Only return products that can be sold through the sales channels of the publishable API key
+    salesChannelIds: req.publishable_key_context?.sales_channel_ids,
+    paginationOptions: {
+      limit,
+      offset,
     },
-    { hits: [], estimatedTotalHits: 0, processingTimeMs: 0, query },
-  )
+    additionalOptions: highlightOptions,
+    merchandisingRules,
+  })
+
+  // Count the search for the query suggestions, without delaying the response
+  if (!offset) {
+    meilisearchService
+      .recordSearchQuery(query, language, results.totalHits)
+      .catch((error) => req.scope.resolve('logger').warn(`Failed to record search query: ${error.message}`))
+  }
 
-  res.json(mergedResults)
+  res.json({ ...results, banners })
 }
@@ -0,0 +1,29 @@
+import { MedusaResponse, MedusaStoreRequest } from '@medusajs/framework'
+import { MEILISEARCH_MODULE, MeiliSearchService, SuggestResponse } from '../../../../modules/meilisearch'
+import z from 'zod'
+
+export const StoreSuggestSchema = z.object({
+  query: z.string(),
+  language: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+  highlightPreTag: z.string().optional(),
+  highlightPostTag: z.string().optional(),
+})
+
+export type StoreSuggestParams = z.infer<typeof StoreSuggestSchema>
+
+/**
+ * Type-ahead suggestions for a partial query
+ */
+export async function GET(req: MedusaStoreRequest<any, StoreSuggestParams>, res: MedusaResponse<SuggestResponse>) {
+  const { query, ...options } = req.validatedQuery
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+
+  const suggestions = await meilisearchService.suggest(query, {
+    ...options,
+    // Only suggest products that can be sold through the sales channels of the publishable API key
+    salesChannelIds: req.publishable_key_context?.sales_channel_ids,
+  })
+
+  res.json(suggestions)
+}
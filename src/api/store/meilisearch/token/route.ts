@@ -0,0 +1,44 @@
+import { AuthenticatedMedusaRequest, MedusaResponse } from '@medusajs/framework'
+import { ContainerRegistrationKeys } from '@medusajs/utils'
+import { MEILISEARCH_MODULE, MeiliSearchService } from '../../../../modules/meilisearch'
+
+type StoreTenantTokenResponse = {
+  token: string
+  expires_at: Date
+  host: string
+  indexes: string[]
+}
+
+/**
+ * Issue a tenant token to search the product indexes directly from the storefront,
+ * restricted to the sales channels of the publishable API key and the groups of the logged in customer
+ */
+export async function GET(req: AuthenticatedMedusaRequest, res: MedusaResponse<StoreTenantTokenResponse>) {
+  const meilisearchService: MeiliSearchService = req.scope.resolve(MEILISEARCH_MODULE)
+
+  let customerGroupIds: string[] = []
+  const customerId = req.auth_context?.actor_id
+  if (customerId) {
+    const queryService = req.scope.resolve(ContainerRegistrationKeys.QUERY)
+    const {
+      data: [customer],
+    } = await queryService.graph({
+      entity: 'customer',
+      fields: ['groups.id'],
+      filters: { id: customerId },
+    })
+    customerGroupIds = customer?.groups?.flatMap((group) => (group ? [group.id] : [])) ?? []
+  }
+
+  const { token, expiresAt, host, indexUids } = await meilisearchService.generateTenantToken({
+    salesChannelIds: req.publishable_key_context?.sales_channel_ids,
+    customerGroupIds,
+  })
+
+  res.json({
+    token,
+    expires_at: expiresAt,
+    host,
+    indexes: indexUids,
+  })
+}
@@ -0,0 +1,25 @@
+import z from 'zod'
+
+const createSearchFiltersSchema = (number: z.ZodNumber) => {
+  const filterPrimitive = z.union([z.string(), z.number(), z.boolean()])
+  const filterRange = z
+    .object({
+      gt: number.optional(),
+      gte: number.optional(),
+      lt: number.optional(),
+      lte: number.optional(),
+    })
+    .strict()
+
+  return z.record(z.union([filterPrimitive, z.array(filterPrimitive), filterRange]))
+}
+
+/**
+ * Structured search filters: a value, a list of values or a numeric range per attribute
+ */
+export const SearchFiltersSchema = createSearchFiltersSchema(z.number())
+
+/**
+ * Structured search filters passed in the query string, where the range bounds are strings
+ */
+export const SearchFiltersQuerySchema = createSearchFiltersSchema(z.coerce.number())
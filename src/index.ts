@@ -2,4 +2,13 @@ export * from './modules/meilisearch/services'
 export * from './modules/meilisearch/types'
 export { syncDocumentsWorkflow } from './workflows/sync-documents'
 export { syncDocumentsStep } from './workflows/steps/sync-documents'
+export { bulkSyncDocumentsStep } from './workflows/steps/bulk-sync-documents'
+export { upsertProductStep } from './workflows/steps/upsert-product'
+export { deleteProductStep } from './workflows/steps/delete-product'
+export { upsertDocumentsStep } from './workflows/steps/upsert-documents'
+export { deleteDocumentsStep } from './workflows/steps/delete-documents'
+export { fullReindexWorkflow } from './workflows/full-reindex'
+export { syncIndexesWorkflow } from './workflows/sync-indexes'
+export { purgeOrphanedDocumentsStep } from './workflows/steps/purge-orphaned-documents'
+export { syncChangedDocumentsStep } from './workflows/steps/sync-changed-documents'
 export { default as meilisearchIndexSyncJob, type IndexSyncJobData } from './utils/index-sync-job-template'
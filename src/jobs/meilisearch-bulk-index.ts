@@ -12,6 +12,8 @@ export default async function meilisearchBulkIndexJob(container: MedusaContainer
       result: { totalProcessed, totalSuccessful, totalFailed, results },
     } = await bulkSyncDocumentsWorkflow(container).run({
       input: {
+        // Only sync documents updated since the last run, reset the checkpoints to rebuild the indexes
+        incremental: true,
         // You can customize these parameters as needed
         // filters: {},
         // limit: 1000,
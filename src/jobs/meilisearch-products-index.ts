@@ -7,12 +7,19 @@ export default async function meilisearchProductsIndexJob(container: MedusaConta
   logger.info('Starting product indexing...')
 
   const {
-    result: { products },
+    result: { incrementalResult },
   } = await syncProductsWorkflow(container).run({
-    input: {},
+    input: {
+      // Only sync products updated since the last run, reset the checkpoints to rebuild the indexes
+      incremental: true,
+    },
   })
 
-  logger.info(`Successfully indexed ${products.length} products`)
+  incrementalResult?.results
+    .filter((result) => !result.success)
+    .forEach((result) => logger.error(`Meilisearch ${result.indexKey}: ${result.error}`))
+
+  logger.info(`Successfully indexed ${incrementalResult?.totalAdded ?? 0} changed products`)
 }
 
 export const config: CronJobConfig = {
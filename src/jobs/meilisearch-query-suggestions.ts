@@ -0,0 +1,29 @@
+import { MedusaContainer } from '@medusajs/framework'
+import { MEILISEARCH_MODULE, MeiliSearchService } from '../modules/meilisearch'
+import { formatTaskError, isTaskFailed } from '../modules/meilisearch/utils/task'
+import { CronJobConfig } from '../models/CronJobConfig'
+
+/**
+ * Populate the query suggestions indexes from the recorded store searches
+ */
+export default async function meilisearchQuerySuggestionsJob(container: MedusaContainer) {
+  const logger = container.resolve('logger')
+  const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+
+  if (!meilisearchService.getSuggestionsIndexKey()) {
+    return
+  }
+
+  const populations = await meilisearchService.populateSuggestions()
+  populations.forEach(({ indexUid, queryCount, tasks }) => {
+    tasks
+      .filter(isTaskFailed)
+      .forEach((task) => logger.error(`Failed to populate the suggestions index ${indexUid}: ${formatTaskError(task)}`))
+    logger.info(`Populated the suggestions index ${indexUid} with ${queryCount} queries`)
+  })
+}
+
+export const config: CronJobConfig = {
+  name: 'meilisearch-query-suggestions',
+  schedule: '*/15 * * * *',
+}
@@ -0,0 +1,37 @@
+import { MedusaContainer } from '@medusajs/framework'
+import { MEILISEARCH_MODULE, MeiliSearchService } from '../modules/meilisearch'
+import { fullReindexWorkflow } from '../workflows/full-reindex'
+import { CronJobConfig } from '../models/CronJobConfig'
+
+/**
+ * Rebuild the indexes flagged on startup, when their settings changed in a way that requires reindexing
+ */
+export default async function meilisearchSettingsRebuildJob(container: MedusaContainer) {
+  const logger = container.resolve('logger')
+  const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+
+  if (!meilisearchService['config_'].settingsMigration?.scheduleRebuild) {
+    return
+  }
+
+  for (const { indexKey, language, indexUid } of meilisearchService.getPendingRebuilds()) {
+    logger.info(`Rebuilding index ${indexUid} after its settings changed...`)
+
+    try {
+      const {
+        result: { documentCount },
+      } = await fullReindexWorkflow(container).run({
+        input: { indexKey, language },
+      })
+      logger.info(`Rebuilt index ${indexUid} with ${documentCount} documents`)
+    } catch (error) {
+      logger.error(`Failed to rebuild index ${indexUid}: ${error}`)
+    }
+  }
+}
+
+export const config: CronJobConfig = {
+  name: 'meilisearch-settings-rebuild',
+  schedule: '* * * * *',
+  numberOfExecutions: 1,
+}
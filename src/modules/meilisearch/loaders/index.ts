@@ -1,29 +1,72 @@
 import { LoaderOptions } from '@medusajs/types'
 import { MeiliSearchService } from '../services'
-import { MeilisearchPluginOptions } from '../types'
+import { MeilisearchPluginOptions, PendingRebuild } from '../types'
 import { asValue } from 'awilix'
+import { formatTaskError, isTaskFailed } from '../utils/task'
 
 export default async ({ container, options }: LoaderOptions<MeilisearchPluginOptions>): Promise<void> => {
   if (!options) {
     throw new Error('Missing meilisearch configuration')
   }
 
-  const meilisearchService: MeiliSearchService = new MeiliSearchService(container, options)
+  // Resolve dependencies from the cradle like the module instance, so the model services are available
+  const meilisearchService: MeiliSearchService = new MeiliSearchService(container.cradle, options)
   const { settings } = options
 
   container.register({
     meilisearchService: asValue(meilisearchService),
   })
 
-  // Initialize index settings
+  const logger = container.resolve('logger')
+
+  // Indexes of which the settings changed in a way that requires reindexing
+  const pendingRebuilds = new Map<string, PendingRebuild>()
+  container.register({
+    meilisearchPendingRebuilds: asValue(pendingRebuilds),
+  })
+
+  // Apply the changed index settings
   await Promise.all(
     Object.entries(settings || {}).map(async ([indexName, value]) => {
-      return await meilisearchService.updateSettings(indexName, value)
+      const migrations = await meilisearchService.migrateSettings(indexName, value)
+
+      migrations.forEach(({ indexKey, language, indexUid, created, changes, rebuildReasons, tasks }) => {
+        if (created) {
+          logger.info(`Created index ${indexUid}`)
+        }
+        changes.forEach(({ setting, from, to }) =>
+          logger.info(`Updated ${setting} of index ${indexUid}: ${JSON.stringify(from)} -> ${JSON.stringify(to)}`),
+        )
+        tasks
+          .filter(isTaskFailed)
+          .forEach((task) => logger.error(`Failed to update settings of index ${indexUid}: ${formatTaskError(task)}`))
+
+        if (rebuildReasons.length) {
+          pendingRebuilds.set(indexUid, {
+            indexKey,
+            language,
+            indexUid,
+            reasons: rebuildReasons,
+            flaggedAt: new Date(),
+          })
+          logger.warn(
+            `Index ${indexUid} has to be rebuilt (${rebuildReasons.join('; ')}). ` +
+              (options.settingsMigration?.scheduleRebuild
+                ? 'A full reindex is scheduled.'
+                : 'Run a full reindex, or enable settingsMigration.scheduleRebuild.'),
+          )
+        }
+      })
     }),
   )
 
+  // Create the query suggestions indexes, so the suggest route works before they are populated
+  const suggestionTasks = await meilisearchService.ensureSuggestionsIndexes()
+  suggestionTasks
+    .filter(isTaskFailed)
+    .forEach((task) => logger.error(`Failed to create the query suggestions index: ${formatTaskError(task)}`))
+
   // Register sync jobs for indexes with custom fetchers
-  const logger = container.resolve('logger')
 
   Object.entries(settings || {}).forEach(([indexName, config]) => {
     if (config.enabled !== false && config.fetcher) {
@@ -0,0 +1,19 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019090000 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(
+      `create table if not exists "meilisearch_index_checkpoint" ("id" text not null, "index_key" text not null, "language" text null, "last_updated_at" timestamptz null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "meilisearch_index_checkpoint_pkey" primary key ("id"));`,
+    )
+    this.addSql(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "IDX_meilisearch_index_checkpoint_index_key_language_unique" ON "meilisearch_index_checkpoint" (index_key, language) WHERE deleted_at IS NULL;`,
+    )
+    this.addSql(
+      `CREATE INDEX IF NOT EXISTS "IDX_meilisearch_index_checkpoint_deleted_at" ON "meilisearch_index_checkpoint" (deleted_at) WHERE deleted_at IS NULL;`,
+    )
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "meilisearch_index_checkpoint" cascade;`)
+  }
+}
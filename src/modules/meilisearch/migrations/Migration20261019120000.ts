@@ -0,0 +1,19 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019120000 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(
+      `create table if not exists "meilisearch_dead_letter" ("id" text not null, "operation" text check ("operation" in ('upsert', 'delete')) not null, "index_key" text not null, "language" text null, "document_ids" jsonb not null, "error" text not null, "attempts" integer not null, "last_attempted_at" timestamptz not null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "meilisearch_dead_letter_pkey" primary key ("id"));`,
+    )
+    this.addSql(
+      `CREATE INDEX IF NOT EXISTS "IDX_meilisearch_dead_letter_index_key" ON "meilisearch_dead_letter" (index_key) WHERE deleted_at IS NULL;`,
+    )
+    this.addSql(
+      `CREATE INDEX IF NOT EXISTS "IDX_meilisearch_dead_letter_deleted_at" ON "meilisearch_dead_letter" (deleted_at) WHERE deleted_at IS NULL;`,
+    )
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "meilisearch_dead_letter" cascade;`)
+  }
+}
@@ -0,0 +1,19 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019150000 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(
+      `create table if not exists "meilisearch_index_sync" ("id" text not null, "index_key" text not null, "language" text null, "status" text check ("status" in ('succeeded', 'failed')) not null, "document_count" integer not null default 0, "error" text null, "synced_at" timestamptz not null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "meilisearch_index_sync_pkey" primary key ("id"));`,
+    )
+    this.addSql(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "IDX_meilisearch_index_sync_index_key_language_unique" ON "meilisearch_index_sync" (index_key, language) WHERE deleted_at IS NULL;`,
+    )
+    this.addSql(
+      `CREATE INDEX IF NOT EXISTS "IDX_meilisearch_index_sync_deleted_at" ON "meilisearch_index_sync" (deleted_at) WHERE deleted_at IS NULL;`,
+    )
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "meilisearch_index_sync" cascade;`)
+  }
+}
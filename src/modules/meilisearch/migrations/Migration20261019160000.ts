@@ -0,0 +1,19 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019160000 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(
+      `create table if not exists "meilisearch_sync_run" ("id" text not null, "mode" text check ("mode" in ('incremental', 'full', 'purge')) not null, "index_keys" jsonb null, "language" text null, "status" text check ("status" in ('pending', 'running', 'succeeded', 'failed')) not null default 'pending', "batches_done" integer not null default 0, "documents_added" integer not null default 0, "documents_deleted" integer not null default 0, "errors" jsonb null, "started_at" timestamptz null, "finished_at" timestamptz null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "meilisearch_sync_run_pkey" primary key ("id"));`,
+    )
+    this.addSql(
+      `CREATE INDEX IF NOT EXISTS "IDX_meilisearch_sync_run_status" ON "meilisearch_sync_run" (status) WHERE deleted_at IS NULL;`,
+    )
+    this.addSql(
+      `CREATE INDEX IF NOT EXISTS "IDX_meilisearch_sync_run_deleted_at" ON "meilisearch_sync_run" (deleted_at) WHERE deleted_at IS NULL;`,
+    )
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "meilisearch_sync_run" cascade;`)
+  }
+}
@@ -0,0 +1,19 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019170000 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(
+      `create table if not exists "meilisearch_settings_override" ("id" text not null, "index_key" text not null, "setting" text check ("setting" in ('synonyms', 'stopWords', 'rankingRules', 'typoTolerance')) not null, "value" jsonb not null, "updated_by" text null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "meilisearch_settings_override_pkey" primary key ("id"));`,
+    )
+    this.addSql(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "IDX_meilisearch_settings_override_index_key_setting_unique" ON "meilisearch_settings_override" (index_key, setting) WHERE deleted_at IS NULL;`,
+    )
+    this.addSql(
+      `CREATE INDEX IF NOT EXISTS "IDX_meilisearch_settings_override_deleted_at" ON "meilisearch_settings_override" (deleted_at) WHERE deleted_at IS NULL;`,
+    )
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "meilisearch_settings_override" cascade;`)
+  }
+}
@@ -0,0 +1,19 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019180000 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(
+      `create table if not exists "meilisearch_merchandising_rule" ("id" text not null, "name" text not null, "query" text not null, "match_type" text check ("match_type" in ('exact', 'contains')) not null default 'exact', "action" text check ("action" in ('pin', 'boost', 'bury', 'hide')) not null, "product_ids" jsonb null, "filters" jsonb null, "position" integer null, "weight" real null, "enabled" boolean not null default true, "starts_at" timestamptz null, "ends_at" timestamptz null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "meilisearch_merchandising_rule_pkey" primary key ("id"));`,
+    )
+    this.addSql(
+      `CREATE INDEX IF NOT EXISTS "IDX_meilisearch_merchandising_rule_enabled" ON "meilisearch_merchandising_rule" (enabled) WHERE deleted_at IS NULL;`,
+    )
+    this.addSql(
+      `CREATE INDEX IF NOT EXISTS "IDX_meilisearch_merchandising_rule_deleted_at" ON "meilisearch_merchandising_rule" (deleted_at) WHERE deleted_at IS NULL;`,
+    )
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "meilisearch_merchandising_rule" cascade;`)
+  }
+}
@@ -0,0 +1,22 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019200000 extends Migration {
+  override async up(): Promise<void> {
+    this.addSql(
+      `create table if not exists "meilisearch_search_query" ("id" text not null, "query" text not null, "language" text null, "count" integer not null default 0, "hit_count" integer not null default 0, "last_searched_at" timestamptz not null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "meilisearch_search_query_pkey" primary key ("id"));`,
+    )
+    this.addSql(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "IDX_meilisearch_search_query_query_language_unique" ON "meilisearch_search_query" (query, language) WHERE deleted_at IS NULL;`,
+    )
+    this.addSql(
+      `CREATE INDEX IF NOT EXISTS "IDX_meilisearch_search_query_count" ON "meilisearch_search_query" (count) WHERE deleted_at IS NULL;`,
+    )
+    this.addSql(
+      `CREATE INDEX IF NOT EXISTS "IDX_meilisearch_search_query_deleted_at" ON "meilisearch_search_query" (deleted_at) WHERE deleted_at IS NULL;`,
+    )
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "meilisearch_search_query" cascade;`)
+  }
+}
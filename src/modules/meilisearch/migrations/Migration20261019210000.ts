@@ -0,0 +1,24 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019210000 extends Migration {
+  override async up(): Promise<void> {
+    // NULL languages never collide in the (index_key, language) indexes; keep the latest row per index key
+    this.addSql(
+      `update "meilisearch_index_checkpoint" set "deleted_at" = now() where "deleted_at" is null and "language" is null and "id" not in (select distinct on ("index_key") "id" from "meilisearch_index_checkpoint" where "deleted_at" is null and "language" is null order by "index_key", "updated_at" desc, "id" desc);`,
+    )
+    this.addSql(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "IDX_meilisearch_index_checkpoint_index_key_null_language_unique" ON "meilisearch_index_checkpoint" (index_key) WHERE language IS NULL AND deleted_at IS NULL;`,
+    )
+    this.addSql(
+      `update "meilisearch_index_sync" set "deleted_at" = now() where "deleted_at" is null and "language" is null and "id" not in (select distinct on ("index_key") "id" from "meilisearch_index_sync" where "deleted_at" is null and "language" is null order by "index_key", "updated_at" desc, "id" desc);`,
+    )
+    this.addSql(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "IDX_meilisearch_index_sync_index_key_null_language_unique" ON "meilisearch_index_sync" (index_key) WHERE language IS NULL AND deleted_at IS NULL;`,
+    )
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop index if exists "IDX_meilisearch_index_checkpoint_index_key_null_language_unique";`)
+    this.addSql(`drop index if exists "IDX_meilisearch_index_sync_index_key_null_language_unique";`)
+  }
+}
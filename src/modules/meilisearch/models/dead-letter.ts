@@ -0,0 +1,23 @@
+import { model } from '@medusajs/utils'
+
+/**
+ * Index write that still failed after all retries
+ */
+const DeadLetter = model
+  .define('meilisearch_dead_letter', {
+    id: model.id({ prefix: 'msdl' }).primaryKey(),
+    operation: model.enum(['upsert', 'delete']),
+    index_key: model.text(),
+    language: model.text().nullable(),
+    document_ids: model.json(),
+    error: model.text(),
+    attempts: model.number(),
+    last_attempted_at: model.dateTime(),
+  })
+  .indexes([
+    {
+      on: ['index_key'],
+    },
+  ])
+
+export default DeadLetter
@@ -0,0 +1,27 @@
+import { model } from '@medusajs/utils'
+
+/**
+ * Last successful incremental sync of an index (and language)
+ */
+const IndexCheckpoint = model
+  .define('meilisearch_index_checkpoint', {
+    id: model.id({ prefix: 'mschk' }).primaryKey(),
+    index_key: model.text(),
+    language: model.text().nullable(),
+    last_updated_at: model.dateTime().nullable(),
+  })
+  .indexes([
+    {
+      on: ['index_key', 'language'],
+      unique: true,
+    },
+    {
+      // NULLs are distinct in a unique index, so rows without a language need their own
+      name: 'IDX_meilisearch_index_checkpoint_index_key_null_language_unique',
+      on: ['index_key'],
+      unique: true,
+      where: 'language IS NULL',
+    },
+  ])
+
+export default IndexCheckpoint
@@ -0,0 +1,30 @@
+import { model } from '@medusajs/utils'
+
+/**
+ * Result of the last sync of an index (and language)
+ */
+const IndexSync = model
+  .define('meilisearch_index_sync', {
+    id: model.id({ prefix: 'mssync' }).primaryKey(),
+    index_key: model.text(),
+    language: model.text().nullable(),
+    status: model.enum(['succeeded', 'failed']),
+    document_count: model.number().default(0),
+    error: model.text().nullable(),
+    synced_at: model.dateTime(),
+  })
+  .indexes([
+    {
+      on: ['index_key', 'language'],
+      unique: true,
+    },
+    {
+      // A sync without a language is not covered by the index above
+      name: 'IDX_meilisearch_index_sync_index_key_null_language_unique',
+      on: ['index_key'],
+      unique: true,
+      where: 'language IS NULL',
+    },
+  ])
+
+export default IndexSync
@@ -0,0 +1,8 @@
+export { default as IndexCheckpoint } from './index-checkpoint'
+export { default as DeadLetter } from './dead-letter'
+export { default as IndexSync } from './index-sync'
+export { default as SyncRun } from './sync-run'
+export { default as SettingsOverride } from './settings-override'
+export { default as MerchandisingRule } from './merchandising-rule'
+export { default as QueryRule } from './query-rule'
+export { default as SearchQuery } from './search-query'
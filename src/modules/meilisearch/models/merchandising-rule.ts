@@ -0,0 +1,27 @@
+import { model } from '@medusajs/utils'
+
+/**
+ * Rule pinning, boosting, burying or hiding products in the store search for matching queries
+ */
+const MerchandisingRule = model
+  .define('meilisearch_merchandising_rule', {
+    id: model.id({ prefix: 'msmr' }).primaryKey(),
+    name: model.text(),
+    query: model.text(),
+    match_type: model.enum(['exact', 'contains']).default('exact'),
+    action: model.enum(['pin', 'boost', 'bury', 'hide']),
+    product_ids: model.json().nullable(),
+    filters: model.json().nullable(),
+    position: model.number().nullable(),
+    weight: model.float().nullable(),
+    enabled: model.boolean().default(true),
+    starts_at: model.dateTime().nullable(),
+    ends_at: model.dateTime().nullable(),
+  })
+  .indexes([
+    {
+      on: ['enabled'],
+    },
+  ])
+
+export default MerchandisingRule
@@ -0,0 +1,24 @@
+import { model } from '@medusajs/utils'
+
+/**
+ * Rule redirecting matching store searches to a page, or showing banners alongside their hits
+ */
+const QueryRule = model
+  .define('meilisearch_query_rule', {
+    id: model.id({ prefix: 'msqr' }).primaryKey(),
+    name: model.text(),
+    query: model.text(),
+    match_type: model.enum(['exact', 'contains']).default('exact'),
+    redirect_url: model.text().nullable(),
+    banners: model.json().nullable(),
+    enabled: model.boolean().default(true),
+    starts_at: model.dateTime().nullable(),
+    ends_at: model.dateTime().nullable(),
+  })
+  .indexes([
+    {
+      on: ['enabled'],
+    },
+  ])
+
+export default QueryRule
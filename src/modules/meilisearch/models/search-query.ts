@@ -0,0 +1,25 @@
+import { model } from '@medusajs/utils'
+
+/**
+ * Query searched in the store, from which the query suggestions are populated
+ */
+const SearchQuery = model
+  .define('meilisearch_search_query', {
+    id: model.id({ prefix: 'mssq' }).primaryKey(),
+    query: model.text(),
+    language: model.text().nullable(),
+    count: model.number().default(0),
+    hit_count: model.number().default(0),
+    last_searched_at: model.dateTime(),
+  })
+  .indexes([
+    {
+      on: ['query', 'language'],
+      unique: true,
+    },
+    {
+      on: ['count'],
+    },
+  ])
+
+export default SearchQuery
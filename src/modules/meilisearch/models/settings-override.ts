@@ -0,0 +1,21 @@
+import { model } from '@medusajs/utils'
+
+/**
+ * Index setting edited from the admin, applied on top of the configured `indexSettings`
+ */
+const SettingsOverride = model
+  .define('meilisearch_settings_override', {
+    id: model.id({ prefix: 'msso' }).primaryKey(),
+    index_key: model.text(),
+    setting: model.enum(['synonyms', 'stopWords', 'rankingRules', 'typoTolerance']),
+    value: model.json(),
+    updated_by: model.text().nullable(),
+  })
+  .indexes([
+    {
+      on: ['index_key', 'setting'],
+      unique: true,
+    },
+  ])
+
+export default SettingsOverride
@@ -0,0 +1,26 @@
+import { model } from '@medusajs/utils'
+
+/**
+ * Sync started from the admin, with its progress
+ */
+const SyncRun = model
+  .define('meilisearch_sync_run', {
+    id: model.id({ prefix: 'msrun' }).primaryKey(),
+    mode: model.enum(['incremental', 'full', 'purge']),
+    index_keys: model.json().nullable(),
+    language: model.text().nullable(),
+    status: model.enum(['pending', 'running', 'succeeded', 'failed']).default('pending'),
+    batches_done: model.number().default(0),
+    documents_added: model.number().default(0),
+    documents_deleted: model.number().default(0),
+    errors: model.json().nullable(),
+    started_at: model.dateTime().nullable(),
+    finished_at: model.dateTime().nullable(),
+  })
+  .indexes([
+    {
+      on: ['status'],
+    },
+  ])
+
+export default SyncRun
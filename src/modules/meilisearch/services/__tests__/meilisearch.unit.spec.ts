@@ -0,0 +1,222 @@
+import { MerchandisingRuleDTO } from '../../types'
+import { MeiliSearchService } from '../meilisearch'
+
+const createService = (container: Record<string, unknown> = {}, primaryKey?: string) =>
+  new MeiliSearchService(
+    { logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }, ...container },
+    {
+      config: { host: 'http://localhost:7700', apiKey: 'masterKey' },
+      settings: {
+        products: {
+          type: 'products',
+          primaryKey,
+          indexSettings: { filterableAttributes: ['id', 'handle', 'status', 'sales_channel_ids', 'collection_id'] },
+        },
+      },
+      retry: { maxAttempts: 3, initialDelayMs: 0 },
+    },
+  )
+
+const createRule = (data: Partial<MerchandisingRuleDTO> = {}): MerchandisingRuleDTO => ({
+  id: 'rule_1',
+  name: 'Rule',
+  query: 'shirt',
+  match_type: 'exact',
+  action: 'pin',
+  product_ids: null,
+  filters: null,
+  position: null,
+  weight: null,
+  enabled: true,
+  starts_at: null,
+  ends_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...data,
+})
+
+describe('MeiliSearchService', () => {
+  describe('buildSearchFilter', () => {
+    it('combines the raw filter, the structured filters and the sales channels', () => {
+      expect(
+        createService()['buildSearchFilter']({
+          filter: 'price > 10',
+          filters: { status: 'published' },
+          salesChannelIds: ['sc_1'],
+        }),
+      ).toEqual(['price > 10', 'status = "published"', 'sales_channel_ids IN ["sc_1"]'])
+    })
+
+    it('does not scope the search without sales channels', () => {
+      expect(createService()['buildSearchFilter']({})).toBeUndefined()
+    })
+
+    it('matches no product when the list of sales channels is empty', () => {
+      expect(createService()['buildSearchFilter']({ salesChannelIds: [] })).toEqual(['sales_channel_ids IN []'])
+    })
+  })
+
+  describe('validateSearchAttributes', () => {
+    it('rejects filter attributes that would change the filter expression', () => {
+      const service = createService()
+      service['config_'].settings!.products.indexSettings.filterableAttributes = ['*']
+
+      expect(() => service.validateSearchAttributes('products', { filters: { 'id EXISTS OR id': 'prod_1' } })).toThrow(
+        'are not filterable on index products',
+      )
+      expect(() => service.validateSearchAttributes('products', { filters: { handle: 'shirt' } })).not.toThrow()
+    })
+  })
+
+  describe('federatedSearch', () => {
+    it('merges the pinned products into the ranked hits and applies the other rules', async () => {
+      const service = createService()
+      const multiSearch = jest.spyOn(service['client_'], 'multiSearch').mockImplementation((async (request: any) =>
+        request.federation
+          ? {
+              hits: [{ id: 'prod_1' }, { id: 'prod_2' }],
+              processingTimeMs: 1,
+              estimatedTotalHits: 2,
+            }
+          : { results: [{ hits: [{ id: 'prod_pinned' }] }] }) as any)
+
+      const results = await service.federatedSearch(['products'], 'shirt', {
+        paginationOptions: { limit: 3, offset: 0 },
+        merchandisingRules: [
+          createRule({ action: 'pin', product_ids: ['prod_pinned'], position: 2 }),
+          createRule({ action: 'hide', product_ids: ['prod_hidden'] }),
+          createRule({ action: 'boost', filters: { collection_id: 'pcol_1' } }),
+        ],
+      })
+
+      expect(results.hits.map((hit) => hit.id)).toEqual(['prod_1', 'prod_pinned', 'prod_2'])
+      expect(results.hits[1]._pinned).toBe(true)
+      expect(results.totalHits).toBe(3)
+
+      const [, [federatedRequest]] = multiSearch.mock.calls as any[]
+      expect(federatedRequest.federation).toMatchObject({ limit: 2, offset: 0 })
+      expect(federatedRequest.queries).toEqual([
+        expect.objectContaining({
+          federationOptions: { weight: 2 },
+          filter: ['NOT (id IN ["prod_hidden"])', 'NOT id IN ["prod_pinned"]', '((collection_id = "pcol_1"))'],
+        }),
+        expect.objectContaining({
+          federationOptions: { weight: 1 },
+          filter: ['NOT (id IN ["prod_hidden"])', 'NOT id IN ["prod_pinned"]', 'NOT ((collection_id = "pcol_1"))'],
+        }),
+      ])
+    })
+
+    it('matches the products of the rules against the primary key of the index', async () => {
+      const service = createService({}, 'handle')
+      const multiSearch = jest
+        .spyOn(service['client_'], 'multiSearch')
+        .mockImplementation((async (request: any) =>
+          request.federation
+            ? { hits: [{ handle: 'shirt' }], processingTimeMs: 1, estimatedTotalHits: 1 }
+            : { results: [{ hits: [{ handle: 'pinned-shirt' }] }] }) as any)
+
+      const results = await service.federatedSearch(['products'], 'shirt', {
+        merchandisingRules: [
+          createRule({ action: 'pin', product_ids: ['pinned-shirt'], position: 1 }),
+          createRule({ action: 'hide', product_ids: ['hidden-shirt'] }),
+        ],
+      })
+
+      expect(results.hits.map((hit) => hit.handle)).toEqual(['pinned-shirt', 'shirt'])
+
+      const [[pinnedRequest], [federatedRequest]] = multiSearch.mock.calls as any[]
+      expect(pinnedRequest.queries[0].filter).toEqual([
+        'NOT (handle IN ["hidden-shirt"])',
+        'handle IN ["pinned-shirt"]',
+      ])
+      expect(federatedRequest.queries[0].filter).toEqual([
+        'NOT (handle IN ["hidden-shirt"])',
+        'NOT handle IN ["pinned-shirt"]',
+      ])
+    })
+
+    it('leaves out pinned products that do not match the search filters', async () => {
+      const service = createService()
+      jest
+        .spyOn(service['client_'], 'multiSearch')
+        .mockImplementation((async (request: any) =>
+          request.federation
+            ? { hits: [{ id: 'prod_1' }], processingTimeMs: 1, estimatedTotalHits: 1 }
+            : { results: [{ hits: [] }] }) as any)
+
+      const results = await service.federatedSearch(['products'], 'shirt', {
+        merchandisingRules: [createRule({ action: 'pin', product_ids: ['prod_pinned'], position: 1 })],
+      })
+
+      expect(results.hits.map((hit) => hit.id)).toEqual(['prod_1'])
+      expect(results.totalHits).toBe(1)
+    })
+  })
+
+  describe('deleteDocuments', () => {
+    it('deletes from the index of the default language when no language is given', async () => {
+      const service = createService()
+      service['config_'].i18n = { strategy: 'separate-index', languages: ['en', 'fr'], defaultLanguage: 'en' }
+      const index = jest
+        .spyOn(service['client_'], 'index')
+        .mockReturnValue({ deleteDocuments: jest.fn(), deleteDocument: jest.fn() } as any)
+
+      await service.deleteDocuments('products', ['prod_1'])
+      await service.deleteDocument('products', 'prod_2')
+
+      expect(index.mock.calls.map(([indexUid]) => indexUid)).toEqual([
+        service.getIndexUid('products'),
+        service.getIndexUid('products'),
+      ])
+      expect(service.getIndexUid('products')).toBe('products_en')
+    })
+  })
+
+  describe('generateTenantToken', () => {
+    it.each([undefined, []])('rejects a token without sales channels (%p)', async (salesChannelIds) => {
+      const service = createService()
+      service['config_'].tenantTokens = {}
+
+      await expect(service.generateTenantToken({ salesChannelIds })).rejects.toThrow(
+        'Tenant tokens require at least one sales channel',
+      )
+    })
+  })
+
+  describe('writeWithRetry', () => {
+    const target = { operation: 'upsert' as const, indexKey: 'products', documentIds: ['prod_1'] }
+
+    it('retries a write whose tasks failed', async () => {
+      const create = jest.fn()
+      const service = createService({ meilisearchDeadLetterService: { create } })
+      const write = jest
+        .fn()
+        .mockResolvedValueOnce([{ taskUid: 1, status: 'failed', error: { message: 'internal error' } }])
+        .mockResolvedValueOnce([{ taskUid: 2, status: 'succeeded' }])
+
+      await expect(service.writeWithRetry(target, write)).resolves.toBeNull()
+      expect(write).toHaveBeenCalledTimes(2)
+      expect(create).not.toHaveBeenCalled()
+    })
+
+    it('stores a write that keeps failing as a dead letter', async () => {
+      const create = jest.fn(async (data) => ({ id: 'dl_1', ...data }))
+      const service = createService({ meilisearchDeadLetterService: { create } })
+      const write = jest.fn().mockRejectedValue(new Error('unavailable'))
+
+      await expect(service.writeWithRetry(target, write)).resolves.toMatchObject({ id: 'dl_1' })
+      expect(write).toHaveBeenCalledTimes(3)
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          operation: 'upsert',
+          index_key: 'products',
+          language: null,
+          document_ids: ['prod_1'],
+          error: 'unavailable',
+          attempts: 3,
+        }),
+      )
+    })
+  })
+})
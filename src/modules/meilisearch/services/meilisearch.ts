@@ -1,15 +1,164 @@
-import { SearchTypes } from '@medusajs/types'
-import { SearchUtils } from '@medusajs/utils'
-import { MeiliSearch } from 'meilisearch'
+import { ModulesSdkTypes, SearchTypes } from '@medusajs/types'
+import { MedusaError, SearchUtils } from '@medusajs/utils'
+import { Logger } from '@medusajs/medusa'
+import {
+  EnqueuedTask,
+  Filter,
+  Key,
+  MeiliSearch,
+  MeiliSearchApiError,
+  MeiliSearchTaskTimeOutError,
+  Settings,
+  TasksOrBatchesQuery,
+  WaitOptions,
+} from 'meilisearch'
+import { generateTenantToken } from 'meilisearch/token'
 import {
   meilisearchErrorCodes,
+  meilisearchIndexTypes,
   MeilisearchPluginOptions,
   DocumentFetcher,
   DocumentFetcherOptions,
   DocumentTransformer,
+  DeadLetterDTO,
+  FederatedSearchHit,
+  FederatedSearchResponse,
+  HealthStatus,
+  IndexCheckpointDTO,
+  IndexEventAction,
+  IndexEventTrigger,
+  IndexSnapshot,
+  IndexStats,
+  IndexSyncDTO,
+  PendingRebuild,
+  IndexWriteOperation,
+  QueryCompletion,
+  SearchQueryDTO,
+  SuggestionsPopulation,
+  SuggestOptions,
+  SuggestResponse,
+  CreateQueryRuleInput,
+  QueryBanner,
+  QueryRuleDTO,
+  UpdateQueryRuleInput,
+  CreateMerchandisingRuleInput,
+  UpdateMerchandisingRuleInput,
+  MerchandisingRuleDTO,
+  OverridableSetting,
+  ProductEmbeddedEntityTrigger,
+  ProductQueueAction,
+  SearchFilters,
+  SearchKeyInfo,
+  SearchOptions,
+  SettingsMigration,
+  SettingsOverrideDTO,
+  SyncRunDTO,
+  SyncRunMode,
+  SyncRunProgress,
+  TenantToken,
+  TaskOutcome,
 } from '../types'
-import { transformProduct, TransformOptions } from '../utils/transformer'
-import { Logger } from '@medusajs/medusa'
+import {
+  transformCategory,
+  transformCollection,
+  transformProduct,
+  TransformOptions,
+  transformVariant,
+} from '../utils/transformer'
+import { resolveCategoryAncestors } from '../utils/category'
+import { getEventIds, PRODUCT_EMBEDDED_ENTITIES } from '../utils/dependency'
+import {
+  buildFilterExpression,
+  combineFilters,
+  escapeFilterValue,
+  isAttributeAllowed,
+  isValidFilterAttribute,
+  parseSortRule,
+} from '../utils/filter'
+import { getPricingAttributes, resolveProductPrices } from '../utils/pricing'
+import { formatTaskError, isTaskFailed, toTaskOutcome } from '../utils/task'
+import { chunk, mapWithConcurrency } from '../utils/batch'
+import { DebouncedQueue } from '../utils/queue'
+import { getMaxAttempts, withRetry } from '../utils/retry'
+import { diffSettings, getReindexReasons } from '../utils/settings'
+import {
+  buildIdsFilter,
+  buildRuleFilter,
+  DEFAULT_BOOST_WEIGHT,
+  DEFAULT_BURY_WEIGHT,
+  getPinnedPositions,
+  isRuleApplicable,
+} from '../utils/merchandising'
+
+type MaybePromise<T> = T | Promise<T>
+
+const DEFAULT_BATCH_SIZE = 1000
+const DEFAULT_TRANSFORM_CONCURRENCY = 10
+const DEFAULT_QUEUE_WINDOW_MS = 1000
+const DEFAULT_QUEUE_MAX_SIZE = 1000
+const DEFAULT_TENANT_TOKEN_EXPIRES_IN = 3600
+const DEFAULT_CUSTOMER_GROUP_ATTRIBUTE = 'customer_group_ids'
+// Name of the Meilisearch API key signing the tenant tokens
+const SEARCH_KEY_NAME = 'medusa-store-search'
+const DEFAULT_SUGGESTIONS_INDEX_KEY = 'query_suggestions'
+const DEFAULT_SUGGESTIONS_MIN_SEARCHES = 2
+const DEFAULT_SUGGESTIONS_MAX_QUERIES = 1000
+const DEFAULT_SUGGEST_LIMIT = 5
+const RULE_CACHE_TTL_MS = 30 * 1000
+// Shorter queries are not recorded, as they are still being typed
+const MIN_RECORDED_QUERY_LENGTH = 2
+
+const SUGGESTIONS_INDEX_SETTINGS: Settings = {
+  searchableAttributes: ['query'],
+  filterableAttributes: ['language', 'populated_at'],
+  sortableAttributes: ['count'],
+  // Popular queries rank above less popular queries matching equally well
+  rankingRules: ['words', 'typo', 'count:desc', 'proximity', 'attribute', 'exactness'],
+}
+
+/**
+ * Fields fetched for built-in index types without configured fields
+ */
+const DEFAULT_FIELDS: Record<string, string[]> = {
+  [meilisearchIndexTypes.VARIANTS]: [
+    '*',
+    'options.*',
+    'options.option.title',
+    'product.*',
+    'inventory_items.required_quantity',
+    'inventory_items.inventory.location_levels.stocked_quantity',
+    'inventory_items.inventory.location_levels.reserved_quantity',
+  ],
+  [meilisearchIndexTypes.CATEGORIES]: ['*', 'products.id', 'products.status'],
+  [meilisearchIndexTypes.COLLECTIONS]: ['*', 'products.id', 'products.status'],
+}
+
+/**
+ * Fields always fetched for built-in index types, as the plugin relies on them
+ */
+const REQUIRED_FIELDS: Record<string, string[]> = {
+  // Sales channels are required to scope product searches
+  [SearchUtils.indexTypes.PRODUCTS]: ['status', 'sales_channels.id'],
+  // Parent product status and sales channels are required to keep variant documents in sync
+  [meilisearchIndexTypes.VARIANTS]: ['product_id', 'product.status', 'product.sales_channels.id'],
+  // The materialized path is required to resolve the category breadcrumbs
+  [meilisearchIndexTypes.CATEGORIES]: ['id', 'name', 'handle', 'parent_category_id', 'mpath'],
+  [meilisearchIndexTypes.COLLECTIONS]: ['id'],
+}
+
+// Entities queried by the default fetchers of the index types
+const DEFAULT_FETCHER_ENTITIES: Record<string, string> = {
+  [SearchUtils.indexTypes.PRODUCTS]: 'product',
+  [meilisearchIndexTypes.VARIANTS]: 'product_variant',
+  [meilisearchIndexTypes.CATEGORIES]: 'product_category',
+  [meilisearchIndexTypes.COLLECTIONS]: 'product_collection',
+}
+
+const DEFAULT_TRANSFORMERS: Record<string, (document: any, options?: TransformOptions) => Record<string, unknown>> = {
+  [meilisearchIndexTypes.VARIANTS]: transformVariant,
+  [meilisearchIndexTypes.CATEGORIES]: transformCategory,
+  [meilisearchIndexTypes.COLLECTIONS]: transformCollection,
+}
 
 export class MeiliSearchService extends SearchUtils.AbstractSearchService {
   static identifier = 'index-meilisearch'
@@ -20,6 +169,20 @@ export class MeiliSearchService extends SearchUtils.AbstractSearchService {
   protected readonly client_: MeiliSearch
   protected _logger: Logger
   protected container_: any
+  protected productQueue_?: DebouncedQueue<string, ProductQueueAction>
+  // Pending progress updates per sync run, applied one after another as steps may report concurrently
+  protected syncRunUpdates_ = new Map<string, Promise<unknown>>()
+  // Pending updates per search query, applied one after another so no search is lost
+  protected searchQueryUpdates_ = new Map<string, Promise<unknown>>()
+  // Enabled merchandising and query rules, read by every store search
+  protected ruleCache_ = new Map<'merchandising' | 'query', { rules: Promise<unknown[]>; expiresAt: number }>()
+
+  __hooks = {
+    // Sync the queued product changes before the application shuts down
+    onApplicationPrepareShutdown: async () => {
+      await this.flushProductQueue()
+    },
+  }
 
   constructor(container: any, options: MeilisearchPluginOptions) {
     super(container, options)
@@ -43,6 +206,27 @@ export class MeiliSearchService extends SearchUtils.AbstractSearchService {
     this.client_ = new MeiliSearch(options.config)
   }
 
+  /**
+   * Queue coalescing product changes over the configured window. The flush handler is set by the first caller,
+   * as syncing the changes requires the application container.
+   */
+  getProductQueue(onFlush: (changes: Map<string, ProductQueueAction>) => Promise<void>) {
+    const { windowMs = DEFAULT_QUEUE_WINDOW_MS, maxSize = DEFAULT_QUEUE_MAX_SIZE } = this.config_.productQueue ?? {}
+
+    this.productQueue_ ??= new DebouncedQueue({
+      windowMs,
+      maxSize,
+      onFlush,
+      onError: (error) => this._logger.error(`Failed to sync queued product changes: ${error}`),
+    })
+
+    return this.productQueue_
+  }
+
+  async flushProductQueue() {
+    await this.productQueue_?.flush()
+  }
+
   protected getLanguageIndexKey(baseKey: string, language?: string): string {
     const { i18n } = this.config_
 
@@ -53,6 +237,71 @@ export class MeiliSearchService extends SearchUtils.AbstractSearchService {
     return `${baseKey}_${language}`
   }
 
+  /**
+   * Resolve the configuration of an index, also for language specific index keys (e.g. `products_en`)
+   */
+  getIndexConfig(indexKey: string) {
+    const settings = this.config_.settings || {}
+    if (settings[indexKey]) {
+      return settings[indexKey]
+    }
+
+    const { i18n } = this.config_
+    if (i18n?.strategy === 'separate-index') {
+      const baseKey = Object.keys(settings).find((key) =>
+        i18n.languages.some((lang) => this.getLanguageIndexKey(key, lang) === indexKey),
+      )
+      return baseKey ? settings[baseKey] : undefined
+    }
+
+    return undefined
+  }
+
+  /**
+   * Resolve the Meilisearch settings of an index, including attributes registered by the plugin itself
+   * (e.g. sales channels and price fields of product indexes)
+   */
+  getIndexSettings(indexKey: string, indexSettings?: Settings): Settings {
+    const indexConfig = this.getIndexConfig(indexKey)
+    const settings = indexSettings ?? indexConfig?.indexSettings ?? {}
+    const mergeAttributes = <T>(attributes: T[] | null | undefined, added: string[]) => [
+      ...(attributes ?? []),
+      ...added.filter((attribute) => !attributes?.includes(attribute as T)),
+    ]
+
+    if (indexConfig?.type === meilisearchIndexTypes.VARIANTS) {
+      // Variants are deleted by product and scoped to sales channels like products
+      return {
+        ...settings,
+        filterableAttributes: mergeAttributes(settings.filterableAttributes, ['product_id', 'sales_channel_ids']),
+      }
+    }
+
+    if (indexConfig?.type !== SearchUtils.indexTypes.PRODUCTS) {
+      return settings
+    }
+
+    const pricingAttributes = getPricingAttributes(indexConfig.pricing)
+    // Attributes filtered by the search rules of tenant tokens
+    const tenantTokenAttributes = this.config_.tenantTokens
+      ? ['status', this.config_.tenantTokens.customerGroupAttribute ?? DEFAULT_CUSTOMER_GROUP_ATTRIBUTE]
+      : []
+
+    return {
+      ...settings,
+      filterableAttributes: mergeAttributes(settings.filterableAttributes, [
+        // Products are pinned and hidden by ID by merchandising rules
+        'id',
+        'sales_channel_ids',
+        ...pricingAttributes,
+        ...tenantTokenAttributes,
+      ]),
+      sortableAttributes: pricingAttributes.length
+        ? mergeAttributes(settings.sortableAttributes, pricingAttributes)
+        : settings.sortableAttributes,
+    }
+  }
+
   async getFieldsForType(type: string) {
     const fields = new Set<string>()
 
@@ -65,9 +314,12 @@ export class MeiliSearchService extends SearchUtils.AbstractSearchService {
       })
 
     if (!fields.size) {
-      fields.add('*')
+      const defaultFields = DEFAULT_FIELDS[type] ?? ['*']
+      defaultFields.forEach((field) => fields.add(field))
     }
 
+    REQUIRED_FIELDS[type]?.forEach((field) => fields.add(field))
+
     return Array.from(fields)
   }
 
@@ -84,11 +336,23 @@ export class MeiliSearchService extends SearchUtils.AbstractSearchService {
     return ['*']
   }
 
-  async getIndexesByType(type: string) {
+  /**
+   * Languages to write documents in: every language when using separate indexes per language
+   */
+  getIndexLanguages(): (string | undefined)[] {
     const { i18n } = this.config_
-    const baseIndexes = Object.entries(this.config_.settings || {})
+    return i18n?.strategy === 'separate-index' && i18n.languages?.length ? i18n.languages : [undefined]
+  }
+
+  getBaseIndexesByType(type: string) {
+    return Object.entries(this.config_.settings || {})
       .filter(([, config]) => config.type === type && config.enabled !== false)
       .map(([key]) => key)
+  }
+
+  async getIndexesByType(type: string) {
+    const { i18n } = this.config_
+    const baseIndexes = this.getBaseIndexesByType(type)
 
     if (i18n?.strategy === 'separate-index') {
       const { languages } = i18n
@@ -98,7 +362,7 @@ export class MeiliSearchService extends SearchUtils.AbstractSearchService {
     return baseIndexes
   }
 
-  async createIndex(indexKey: string, options: Record<string, unknown> = { primaryKey: 'id' }) {
+  createIndex(indexKey: string, options: Record<string, unknown> = { primaryKey: 'id' }) {
     return this.client_.createIndex(indexKey, options)
   }
 
@@ -106,21 +370,107 @@ export class MeiliSearchService extends SearchUtils.AbstractSearchService {
     return this.client_.index(indexKey)
   }
 
-  async addDocuments(indexKey: string, documents: any[], language?: string, container?: any) {
+  /**
+   * Resolve the Meilisearch index UID for an index key, falling back to the default language
+   * when using separate indexes per language
+   */
+  getIndexUid(indexKey: string, language?: string) {
     const { i18n } = this.config_
-    const i18nOptions = {
-      i18n,
-      language,
+    return this.getLanguageIndexKey(indexKey, language || i18n?.defaultLanguage)
+  }
+
+  async addDocuments(indexKey: string, documents: any[], language?: string, container?: any) {
+    const transformedDocuments = await this.transformDocuments(indexKey, documents, language, container)
+    return this.client_
+      .index(this.getIndexUid(indexKey, language))
+      .addDocuments(transformedDocuments, { primaryKey: this.getPrimaryKey(indexKey) })
+  }
+
+  /**
+   * Add documents like `addDocuments`, in batches of the configured size with one task per batch
+   */
+  async addDocumentsInBatches(indexKey: string, documents: any[], language?: string, container?: any) {
+    return this.addDocumentsToIndex(this.getIndexUid(indexKey, language), indexKey, documents, language, container)
+  }
+
+  /**
+   * Transform documents of an index and add them to the given index UID in batches of the configured size.
+   * Each batch is transformed right before it is sent, so only one batch of transformed documents is held in memory.
+   */
+  async addDocumentsToIndex(indexUid: string, indexKey: string, documents: any[], language?: string, container?: any) {
+    const primaryKey = this.getPrimaryKey(indexKey)
+    const tasks: EnqueuedTask[] = []
+
+    for (const batch of chunk(documents, this.getBatchSize(indexKey))) {
+      const transformedDocuments = await this.transformDocuments(indexKey, batch, language, container)
+      tasks.push(await this.client_.index(indexUid).addDocuments(transformedDocuments, { primaryKey }))
     }
 
-    if (i18n?.strategy === 'separate-index') {
-      const langIndexKey = this.getLanguageIndexKey(indexKey, language || i18n.defaultLanguage)
-      const transformedDocuments = await this.getTransformedDocuments(indexKey, documents, i18nOptions, container)
-      return this.client_.index(langIndexKey).addDocuments(transformedDocuments, { primaryKey: 'id' })
-    } else {
-      const transformedDocuments = await this.getTransformedDocuments(indexKey, documents, i18nOptions, container)
-      return this.client_.index(indexKey).addDocuments(transformedDocuments, { primaryKey: 'id' })
+    return tasks
+  }
+
+  /**
+   * Add documents page by page from a (async) iterable, e.g. `iterateDocuments`, so a large number of documents
+   * can be indexed with bounded memory use. Waits for the tasks of each page before continuing with the next one
+   * when task waiting is enabled.
+   */
+  async ingestDocuments(
+    indexKey: string,
+    pages: AsyncIterable<any[]> | Iterable<any[]>,
+    {
+      language,
+      container,
+      indexUid = this.getIndexUid(indexKey, language),
+      wait,
+      onBatch,
+    }: {
+      language?: string
+      container?: any
+      indexUid?: string
+      wait?: boolean
+      /**
+       * Called after each page was added, e.g. to report progress
+       */
+      onBatch?: (documents: any[]) => MaybePromise<void>
+    } = {},
+  ) {
+    const tasks: TaskOutcome[] = []
+    let documentCount = 0
+
+    for await (const documents of pages) {
+      tasks.push(
+        ...(await this.resolveTasks(this.addDocumentsToIndex(indexUid, indexKey, documents, language, container), {
+          wait,
+        })),
+      )
+      documentCount += documents.length
+      await onBatch?.(documents)
     }
+
+    return { documentCount, tasks }
+  }
+
+  getPrimaryKey(indexKey: string) {
+    return this.getIndexConfig(indexKey)?.primaryKey ?? 'id'
+  }
+
+  /**
+   * ID of a document of an index, the value of the primary key of the index
+   */
+  getDocumentId(indexKey: string, document: Record<string, any>): string {
+    return String(document[this.getPrimaryKey(indexKey)])
+  }
+
+  getBatchSize(indexKey: string) {
+    return this.getIndexConfig(indexKey)?.batchSize ?? DEFAULT_BATCH_SIZE
+  }
+
+  /**
+   * Transform documents with the transformer configured for the index
+   */
+  async transformDocuments(indexKey: string, documents: any[], language?: string, container?: any) {
+    const { i18n } = this.config_
+    return this.getTransformedDocuments(indexKey, documents, { i18n, language }, container)
   }
 
   async replaceDocuments(indexKey: string, documents: any[], language?: string, container?: any) {
@@ -128,24 +478,328 @@ export class MeiliSearchService extends SearchUtils.AbstractSearchService {
   }
 
   async deleteDocument(indexKey: string, documentId: string, language?: string) {
-    const actualIndexKey = this.getLanguageIndexKey(indexKey, language)
-    return this.client_.index(actualIndexKey).deleteDocument(documentId)
+    return this.client_.index(this.getIndexUid(indexKey, language)).deleteDocument(documentId)
   }
 
   async deleteDocuments(indexKey: string, documentIds: string[], language?: string) {
-    const actualIndexKey = this.getLanguageIndexKey(indexKey, language)
-    return this.client_.index(actualIndexKey).deleteDocuments(documentIds)
+    return this.client_.index(this.getIndexUid(indexKey, language)).deleteDocuments(documentIds)
+  }
+
+  /**
+   * Delete the documents matching a filter expression, the filtered attributes must be filterable
+   */
+  async deleteDocumentsByFilter(indexKey: string, filter: Filter, language?: string) {
+    return this.client_.index(this.getIndexUid(indexKey, language)).deleteDocuments({ filter })
+  }
+
+  /**
+   * Capture the stored documents with the given IDs before they are written or deleted
+   */
+  async snapshotDocuments(indexKey: string, ids: string[], language?: string): Promise<IndexSnapshot> {
+    const index = this.client_.index(this.getIndexUid(indexKey, language))
+    const documents: Record<string, any>[] = []
+
+    try {
+      for (const batchIds of chunk(ids, this.getBatchSize(indexKey))) {
+        const { results } = await index.getDocuments({ ids: batchIds, limit: batchIds.length })
+        documents.push(...results)
+      }
+    } catch (error) {
+      // Nothing to restore when the index does not exist yet
+      if (!(error instanceof MeiliSearchApiError) || error.cause?.code !== meilisearchErrorCodes.INDEX_NOT_FOUND) {
+        throw error
+      }
+    }
+
+    return { indexKey, language, ids, documents }
+  }
+
+  /**
+   * Snapshot documents before a write that is retried and stored as dead letter when it fails.
+   * A failed snapshot must not prevent the write, so the write is just not restored on compensation.
+   */
+  async trySnapshotDocuments(indexKey: string, ids: string[], language?: string): Promise<IndexSnapshot | null> {
+    try {
+      return await this.snapshotDocuments(indexKey, ids, language)
+    } catch (error) {
+      this._logger?.warn(
+        `Failed to snapshot ${ids.length} documents of index ${indexKey}, they cannot be restored: ${error}`,
+      )
+      return null
+    }
+  }
+
+  /**
+   * Restore documents as captured by `snapshotDocuments`: the stored documents are added back as they were,
+   * and documents that did not exist are deleted
+   */
+  async restoreSnapshot({ indexKey, language, ids, documents }: IndexSnapshot) {
+    const index = this.client_.index(this.getIndexUid(indexKey, language))
+    const primaryKey = this.getPrimaryKey(indexKey)
+    const createdIds = ids.filter((id) => !documents.some((document) => document[primaryKey] === id))
+
+    const tasks: EnqueuedTask[] = []
+    for (const batch of chunk(documents, this.getBatchSize(indexKey))) {
+      tasks.push(await index.addDocuments(batch, { primaryKey }))
+    }
+    if (createdIds.length) {
+      tasks.push(await index.deleteDocuments(createdIds))
+    }
+
+    return this.resolveTasks(tasks)
+  }
+
+  async restoreSnapshots(snapshots: IndexSnapshot[]) {
+    return (await Promise.all(snapshots.map((snapshot) => this.restoreSnapshot(snapshot)))).flat()
   }
 
   async deleteAllDocuments(indexKey: string, language?: string) {
-    const actualIndexKey = this.getLanguageIndexKey(indexKey, language)
-    return this.client_.index(actualIndexKey).deleteAllDocuments()
+    return this.client_.index(this.getIndexUid(indexKey, language)).deleteAllDocuments()
   }
 
-  async search(indexKey: string, query: string, options: Record<string, any> & { language?: string }) {
-    const { language, paginationOptions, filter, additionalOptions } = options
+  async search(indexKey: string, query: string, options: SearchOptions) {
+    const { language, paginationOptions, facets, sort, additionalOptions } = options
     const actualIndexKey = this.getLanguageIndexKey(indexKey, language)
-    return this.client_.index(actualIndexKey).search(query, { filter, ...paginationOptions, ...additionalOptions })
+
+    this.validateSearchAttributes(indexKey, options)
+
+    return this.client_.index(actualIndexKey).search(query, {
+      filter: this.buildSearchFilter(options),
+      facets,
+      sort,
+      ...paginationOptions,
+      ...additionalOptions,
+    })
+  }
+
+  /**
+   * Search multiple indexes at once and merge the hits into a single relevance ranked page.
+   * Merchandising rules in the options pin, boost, bury or hide products in the results.
+   */
+  async federatedSearch(indexKeys: string[], query: string, options: SearchOptions): Promise<FederatedSearchResponse> {
+    const { language, paginationOptions, facets, sort, additionalOptions, merchandisingRules = [] } = options
+    const limit = paginationOptions?.limit ?? 20
+    const offset = paginationOptions?.offset ?? 0
+
+    indexKeys.forEach((indexKey) => this.validateSearchAttributes(indexKey, options))
+
+    // Hidden products are excluded from both the pinned and the ranked results.
+    // Product IDs of the rules are matched against the primary key of each index.
+    const searchFilter = this.buildSearchFilter(options)
+    const getIndexFilter = (indexKey: string) =>
+      combineFilters(
+        searchFilter,
+        merchandisingRules
+          .filter((rule) => rule.action === 'hide')
+          .flatMap((rule) => {
+            const ruleFilter = buildRuleFilter(rule, this.getPrimaryKey(indexKey))
+            return ruleFilter ? [`NOT ${ruleFilter}`] : []
+          }),
+      )
+
+    // Pinned products that do not match the search filters are left out
+    const pinnedPositions = getPinnedPositions(merchandisingRules)
+    const pinnedIds = [...pinnedPositions.values()]
+    const pinnedHits = await this.fetchPinnedHits(indexKeys, pinnedIds, getIndexFilter, options)
+    const pinnedSlots = [...pinnedPositions].filter(([, id]) => pinnedHits.has(id))
+    const pinnedBefore = pinnedSlots.filter(([position]) => position < offset).length
+    const pinnedInPage = new Map(pinnedSlots.filter(([position]) => position >= offset && position < offset + limit))
+
+    const queries = this.buildMerchandisedQueries(
+      indexKeys,
+      (indexKey) =>
+        pinnedIds.length
+          ? combineFilters(getIndexFilter(indexKey), [`NOT ${buildIdsFilter(pinnedIds, this.getPrimaryKey(indexKey))}`])
+          : getIndexFilter(indexKey),
+      merchandisingRules,
+      language,
+    )
+    const indexUids = [...new Set(queries.map(({ indexUid }) => indexUid))]
+
+    const response = await this.client_.multiSearch({
+      federation: {
+        limit: limit - pinnedInPage.size,
+        offset: offset - pinnedBefore,
+        ...(facets?.length
+          ? {
+              facetsByIndex: Object.fromEntries(indexUids.map((indexUid) => [indexUid, facets])),
+              mergeFacets: {},
+            }
+          : {}),
+      },
+      queries: queries.map(({ indexUid, filter, weight }) => ({
+        indexUid,
+        q: query,
+        filter,
+        sort,
+        ...additionalOptions,
+        federationOptions: {
+          weight,
+        },
+      })),
+    })
+
+    const rankedHits: FederatedSearchHit[] = response.hits.map((hit) => ({
+      ...hit,
+      _index: queries[hit._federation?.queriesPosition ?? 0].indexKey,
+    }))
+
+    const hits: FederatedSearchHit[] = []
+    for (let position = offset; position < offset + limit; position++) {
+      const pinnedId = pinnedInPage.get(position)
+      const hit = pinnedId ? pinnedHits.get(pinnedId) : rankedHits.shift()
+      if (hit) {
+        hits.push(hit)
+      }
+    }
+
+    const totalHits = (response.estimatedTotalHits ?? response.totalHits ?? 0) + pinnedSlots.length
+
+    return {
+      hits,
+      query,
+      processingTimeMs: response.processingTimeMs,
+      limit,
+      offset,
+      totalHits,
+      totalPages: limit > 0 ? Math.ceil(totalHits / limit) : 0,
+      facetDistribution: response.facetDistribution ?? {},
+      facetStats: response.facetStats ?? {},
+    }
+  }
+
+  /**
+   * Build the federated queries of the indexes. Boosted and buried products are searched by separate queries
+   * with a higher or lower weight, and excluded from the other queries so no product is returned twice.
+   */
+  protected buildMerchandisedQueries(
+    indexKeys: string[],
+    getIndexFilter: (indexKey: string) => Filter | undefined,
+    merchandisingRules: MerchandisingRuleDTO[],
+    language?: string,
+  ) {
+    return indexKeys.flatMap((indexKey) => {
+      const indexUid = this.getIndexUid(indexKey, language)
+      const weight = this.getIndexConfig(indexKey)?.weight ?? 1
+      const filter = getIndexFilter(indexKey)
+      const weightedRules = merchandisingRules
+        .filter((rule) => rule.action === 'boost' || rule.action === 'bury')
+        .flatMap((rule) => {
+          const ruleFilter = buildRuleFilter(rule, this.getPrimaryKey(indexKey))
+          const weight = rule.weight ?? (rule.action === 'boost' ? DEFAULT_BOOST_WEIGHT : DEFAULT_BURY_WEIGHT)
+          return ruleFilter ? [{ filter: ruleFilter, weight }] : []
+        })
+
+      return [
+        ...weightedRules.map((rule, i) => ({
+          indexKey,
+          indexUid,
+          weight: weight * rule.weight,
+          filter: combineFilters(filter, [
+            rule.filter,
+            ...weightedRules.slice(0, i).map((previous) => `NOT ${previous.filter}`),
+          ]),
+        })),
+        {
+          indexKey,
+          indexUid,
+          weight,
+          filter: combineFilters(
+            filter,
+            weightedRules.map((rule) => `NOT ${rule.filter}`),
+          ),
+        },
+      ]
+    })
+  }
+
+  /**
+   * Fetch the pinned products matching the search filters of each index, keyed by product ID
+   */
+  protected async fetchPinnedHits(
+    indexKeys: string[],
+    ids: string[],
+    getIndexFilter: (indexKey: string) => Filter | undefined,
+    { language, additionalOptions }: SearchOptions,
+  ): Promise<Map<string, FederatedSearchHit>> {
+    const pinnedHits = new Map<string, FederatedSearchHit>()
+    if (!ids.length) {
+      return pinnedHits
+    }
+
+    const { results } = await this.client_.multiSearch({
+      queries: indexKeys.map((indexKey) => ({
+        ...additionalOptions,
+        indexUid: this.getIndexUid(indexKey, language),
+        q: '',
+        filter: combineFilters(getIndexFilter(indexKey), [buildIdsFilter(ids, this.getPrimaryKey(indexKey))]),
+        limit: ids.length,
+        offset: 0,
+      })),
+    })
+
+    results.forEach((result, position) =>
+      result.hits.forEach((hit) => {
+        const id = this.getDocumentId(indexKeys[position], hit)
+        if (!pinnedHits.has(id)) {
+          pinnedHits.set(id, { ...hit, _index: indexKeys[position], _pinned: true })
+        }
+      }),
+    )
+
+    return pinnedHits
+  }
+
+  /**
+   * Combine the raw filter, structured filters and sales channel scope of the search options into a single filter.
+   * An empty list of sales channels matches no product.
+   */
+  protected buildSearchFilter({ filter, filters, salesChannelIds }: SearchOptions) {
+    return combineFilters(filter, [
+      ...buildFilterExpression({ ...filters, sales_channel_ids: salesChannelIds }),
+      ...(salesChannelIds?.length === 0 ? ['sales_channel_ids IN []'] : []),
+    ])
+  }
+
+  /**
+   * Ensure that filters and facets only use filterable attributes and sort rules only use sortable attributes
+   */
+  validateSearchAttributes(
+    indexKey: string,
+    { filters, facets, sort }: { filters?: SearchFilters; facets?: string[]; sort?: string[] },
+  ) {
+    const { filterableAttributes, sortableAttributes } = this.getIndexSettings(indexKey)
+
+    const invalidFilters = Object.keys(filters ?? {}).filter(
+      (attribute) => !isValidFilterAttribute(attribute) || !isAttributeAllowed(attribute, filterableAttributes),
+    )
+    if (invalidFilters.length) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `Attributes ${invalidFilters.join(', ')} are not filterable on index ${indexKey}`,
+      )
+    }
+
+    const invalidFacets = (facets ?? []).filter(
+      (attribute) => attribute !== '*' && !isAttributeAllowed(attribute, filterableAttributes),
+    )
+    if (invalidFacets.length) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `Attributes ${invalidFacets.join(', ')} cannot be used as facets on index ${indexKey}`,
+      )
+    }
+
+    const invalidSort = (sort ?? []).filter((rule) => {
+      const { attribute, direction } = parseSortRule(rule)
+      return !direction || !isAttributeAllowed(attribute, sortableAttributes)
+    })
+    if (invalidSort.length) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `Sort rules ${invalidSort.join(', ')} are invalid or not sortable on index ${indexKey}`,
+      )
+    }
   }
 
   async updateSettings(indexKey: string, settings: Pick<SearchTypes.IndexSettings, 'indexSettings' | 'primaryKey'>) {
@@ -155,6 +809,7 @@ export class MeiliSearchService extends SearchUtils.AbstractSearchService {
     }
 
     const { i18n } = this.config_
+    const indexSettings = await this.resolveIndexSettings(indexKey, settings.indexSettings)
 
     if (i18n?.strategy === 'separate-index') {
       const { languages } = i18n
@@ -162,13 +817,79 @@ export class MeiliSearchService extends SearchUtils.AbstractSearchService {
         languages.map(async (lang) => {
           const langIndexKey = this.getLanguageIndexKey(indexKey, lang)
           await this.upsertIndex(langIndexKey, settings)
-          return this.client_.index(langIndexKey).updateSettings(settings.indexSettings ?? {})
+          return this.client_.index(langIndexKey).updateSettings(indexSettings)
         }),
       )
     } else {
       await this.upsertIndex(indexKey, settings)
-      return this.client_.index(indexKey).updateSettings(settings.indexSettings ?? {})
+      return this.client_.index(indexKey).updateSettings(indexSettings)
+    }
+  }
+
+  /**
+   * Apply the configured settings to every index of an index key, updating only the settings that differ
+   * from the live settings. Changes that invalidate the stored documents are reported as rebuild reasons.
+   */
+  async migrateSettings(
+    indexKey: string,
+    settings: Pick<SearchTypes.IndexSettings, 'indexSettings' | 'primaryKey'>,
+  ): Promise<SettingsMigration[]> {
+    const indexConfig = this.config_.settings?.[indexKey]
+    if (indexConfig?.enabled === false) {
+      return []
     }
+
+    const primaryKey = settings.primaryKey ?? 'id'
+    const desiredSettings = await this.resolveIndexSettings(indexKey, settings.indexSettings)
+
+    return Promise.all(
+      this.getIndexLanguages().map(async (language) => {
+        const indexUid = this.getIndexUid(indexKey, language)
+
+        const index = await this.client_.getIndex(indexUid).catch((error) => {
+          if (error instanceof MeiliSearchApiError && error.cause?.code === meilisearchErrorCodes.INDEX_NOT_FOUND) {
+            return null
+          }
+          throw error
+        })
+
+        if (!index) {
+          const tasks = await this.resolveTasks([
+            await this.createIndex(indexUid, { primaryKey }),
+            await this.client_.index(indexUid).updateSettings(desiredSettings),
+          ])
+          return { indexKey, language, indexUid, created: true, changes: [], rebuildReasons: [], tasks }
+        }
+
+        const changes = diffSettings(await index.getSettings(), desiredSettings)
+        const rebuildReasons = getReindexReasons(changes, [primaryKey])
+        // The primary key cannot be changed while the index holds documents
+        if (index.primaryKey && index.primaryKey !== primaryKey) {
+          rebuildReasons.push(`primary key changed from ${index.primaryKey} to ${primaryKey}`)
+        }
+
+        const tasks = changes.length
+          ? await this.resolveTasks(
+              index.updateSettings(Object.fromEntries(changes.map(({ setting, to }) => [setting, to]))),
+            )
+          : []
+
+        return { indexKey, language, indexUid, created: false, changes, rebuildReasons, tasks }
+      }),
+    )
+  }
+
+  /**
+   * Indexes flagged for a rebuild on startup. The flags are shared through the container,
+   * as the loader uses its own instance of the service.
+   */
+  getPendingRebuilds(): PendingRebuild[] {
+    const pendingRebuilds: Map<string, PendingRebuild> | undefined = this.container_.meilisearchPendingRebuilds
+    return [...(pendingRebuilds?.values() ?? [])]
+  }
+
+  clearPendingRebuild(indexUid: string) {
+    this.container_.meilisearchPendingRebuilds?.delete(indexUid)
   }
 
   async upsertIndex(indexKey: string, settings: Pick<SearchTypes.IndexSettings, 'primaryKey'>) {
@@ -179,101 +900,1312 @@ export class MeiliSearchService extends SearchUtils.AbstractSearchService {
     try {
       await this.client_.getIndex(indexKey)
     } catch (error) {
-      if (error.code === meilisearchErrorCodes.INDEX_NOT_FOUND) {
-        await this.createIndex(indexKey, {
-          primaryKey: settings.primaryKey ?? 'id',
-        })
+      if (!(error instanceof MeiliSearchApiError) || error.cause?.code !== meilisearchErrorCodes.INDEX_NOT_FOUND) {
+        throw error
       }
+
+      // Callers rely on the index to exist once this resolves
+      await this.waitForTask(this.createIndex(indexKey, { primaryKey: settings.primaryKey ?? 'id' }))
     }
   }
 
-  async getDocumentFetcher(indexKey: string): Promise<DocumentFetcher | null> {
-    const indexConfig = this.config_.settings?.[indexKey]
-    if (!indexConfig || indexConfig.enabled === false) {
-      return null
+  async indexExists(indexUid: string) {
+    try {
+      await this.client_.getRawIndex(indexUid)
+      return true
+    } catch (error) {
+      if (error instanceof MeiliSearchApiError && error.cause?.code === meilisearchErrorCodes.INDEX_NOT_FOUND) {
+        return false
+      }
+      throw error
     }
+  }
 
-    // Return custom fetcher if provided
-    if (indexConfig.fetcher) {
-      return indexConfig.fetcher
-    }
+  async deleteIndex(indexUid: string) {
+    return this.client_.deleteIndexIfExists(indexUid)
+  }
 
-    // Default fetcher for products
-    if (indexConfig.type === SearchUtils.indexTypes.PRODUCTS) {
-      // Use arrow function to preserve 'this' context
-      return async (container: any, options: DocumentFetcherOptions) => {
-        const queryService = container.resolve('query')
-        const fields = await this.getFieldsForType(SearchUtils.indexTypes.PRODUCTS)
+  /**
+   * Atomically swap the documents and settings of two indexes
+   */
+  async swapIndexes(indexUid: string, otherIndexUid: string) {
+    return this.waitForTask(this.client_.swapIndexes([{ indexes: [indexUid, otherIndexUid] }]))
+  }
 
-        const { data: products } = await queryService.graph({
-          entity: 'product',
-          fields: fields,
-          pagination: {
-            take: options.limit,
-            skip: options.offset,
-          },
-          filters: {
-            status: 'published',
-            ...options.filters,
-          },
-        })
+  /**
+   * Resolve the outcome of enqueued tasks. When waiting is enabled (via options or the `tasks` plugin option),
+   * waits until the tasks are processed and reports failures and timeouts instead of throwing.
+   */
+  async resolveTasks(
+    enqueuedTasks: MaybePromise<EnqueuedTask | EnqueuedTask[] | void>,
+    options: WaitOptions & { wait?: boolean } = {},
+  ): Promise<TaskOutcome[]> {
+    const { wait = this.config_.tasks?.wait ?? false, ...waitOptions } = options
+    const resolved = await enqueuedTasks
+    const tasks = !resolved ? [] : Array.isArray(resolved) ? resolved : [resolved]
 
-        return products
-      }
+    if (!wait) {
+      return tasks.map(toTaskOutcome)
     }
 
-    // No fetcher available for this index type
-    return null
+    return Promise.all(
+      tasks.map(async (enqueuedTask) => {
+        try {
+          const task = await this.client_.tasks.waitForTask(enqueuedTask.taskUid, {
+            timeout: this.config_.tasks?.timeout,
+            interval: this.config_.tasks?.interval,
+            ...waitOptions,
+          })
+          return toTaskOutcome(task)
+        } catch (error) {
+          return {
+            ...toTaskOutcome(enqueuedTask),
+            error: {
+              code: error instanceof MeiliSearchTaskTimeOutError ? 'task_timeout' : 'task_wait_failed',
+              type: 'internal',
+              message: error instanceof Error ? error.message : 'Unknown error',
+            },
+          }
+        }
+      }),
+    )
   }
 
-  async fetchDocuments(indexKey: string, container: any, options: DocumentFetcherOptions = {}): Promise<any[]> {
-    const fetcher = await this.getDocumentFetcher(indexKey)
-    if (!fetcher) {
-      console.log(`No document fetcher configured for index: ${indexKey}. Returning empty array.`)
-      return []
+  /**
+   * Wait until an enqueued task is processed and throw when it did not succeed
+   */
+  async waitForTask(enqueuedTask: MaybePromise<EnqueuedTask>, options?: WaitOptions): Promise<TaskOutcome> {
+    const [outcome] = await this.resolveTasks(enqueuedTask, { ...options, wait: true })
+    if (isTaskFailed(outcome) || outcome.status !== 'succeeded') {
+      throw new Error(`Meilisearch ${formatTaskError(outcome)}`)
     }
 
-    return fetcher(container, options)
+    return outcome
   }
 
-  private async getTransformedDocuments(
+  /**
+   * List recent tasks of an index, most recent first
+   */
+  async getTasks(
     indexKey: string,
-    documents: any[],
-    options?: TransformOptions,
-    container?: any,
+    { language, ...query }: Omit<TasksOrBatchesQuery, 'indexUids'> & { language?: string } = {},
   ) {
-    if (!documents?.length) {
+    return this.client_.tasks.getTasks({
+      ...query,
+      indexUids: [this.getIndexUid(indexKey, language)],
+    })
+  }
+
+  async getTask(taskUid: number) {
+    return this.client_.tasks.getTask(taskUid)
+  }
+
+  protected get settingsOverrideService_(): ModulesSdkTypes.IMedusaInternalService<SettingsOverrideDTO> {
+    return this.container_.meilisearchSettingsOverrideService
+  }
+
+  async listSettingsOverrides(indexKey?: string): Promise<SettingsOverrideDTO[]> {
+    return this.settingsOverrideService_.list(indexKey ? { index_key: indexKey } : {})
+  }
+
+  /**
+   * Resolve the Meilisearch settings of an index like `getIndexSettings`,
+   * with the settings overridden from the admin replacing the configured ones
+   */
+  async resolveIndexSettings(indexKey: string, indexSettings?: Settings): Promise<Settings> {
+    const settings = indexSettings ?? this.getIndexConfig(indexKey)?.indexSettings ?? {}
+    const overrides = await this.listSettingsOverrides(indexKey).catch((error) => {
+      // The overrides cannot be loaded before the migrations of the module ran
+      this._logger?.warn(`Failed to load the settings overrides of index ${indexKey}: ${error.message}`)
       return []
-    }
+    })
 
-    const indexConfig = (this.config_.settings || {})[indexKey]
-    const transformerContainer = container || this.container_
+    return this.getIndexSettings(indexKey, {
+      ...settings,
+      ...Object.fromEntries(overrides.map(({ setting, value }) => [setting, value])),
+    })
+  }
 
-    // If a custom transformer is provided, use it
-    if (indexConfig?.transformer) {
-      // For products, provide the default transformer after container
-      if (indexConfig.type === SearchUtils.indexTypes.PRODUCTS) {
-        return Promise.all(
-          documents.map((doc) => indexConfig.transformer!(doc, transformerContainer, transformProduct, { ...options })),
-        )
-      }
+  /**
+   * Override a setting of an index and apply the resulting settings to its indexes
+   */
+  async upsertSettingsOverride(
+    indexKey: string,
+    setting: OverridableSetting,
+    value: SettingsOverrideDTO['value'],
+    actorId?: string,
+  ): Promise<SettingsOverrideDTO> {
+    const indexConfig = this.getConfiguredIndex(indexKey)
+    const [existing] = await this.settingsOverrideService_.list({ index_key: indexKey, setting })
 
-      // For other types, transformer handles everything
-      return Promise.all(
-        documents.map((doc) =>
-          (indexConfig.transformer! as DocumentTransformer)(doc, transformerContainer, undefined, { ...options }),
-        ),
-      )
-    }
+    const override = existing
+      ? await this.settingsOverrideService_.update({ id: existing.id, value, updated_by: actorId ?? null })
+      : await this.settingsOverrideService_.create({
+          index_key: indexKey,
+          setting,
+          value,
+          updated_by: actorId ?? null,
+        })
 
-    // Default transformations based on type
-    switch (indexConfig?.type) {
-      case SearchUtils.indexTypes.PRODUCTS:
-        return Promise.all(documents.map((doc) => transformProduct(doc, options)))
+    await this.resolveTasks(this.updateSettings(indexKey, indexConfig))
+    return override
+  }
 
-      default:
-        // For custom types without transformers, return documents as-is
-        return documents
+  /**
+   * Remove the override of a setting, restoring the configured value (or the Meilisearch default)
+   */
+  async deleteSettingsOverride(indexKey: string, setting: OverridableSetting): Promise<SettingsOverrideDTO | null> {
+    const indexConfig = this.getConfiguredIndex(indexKey)
+    const [existing] = await this.settingsOverrideService_.list({ index_key: indexKey, setting })
+    if (!existing) {
+      return null
+    }
+
+    await this.settingsOverrideService_.delete(existing.id)
+
+    const indexSettings = indexConfig.indexSettings ?? {}
+    await this.resolveTasks(
+      this.updateSettings(indexKey, {
+        ...indexConfig,
+        indexSettings: { ...indexSettings, [setting]: indexSettings[setting] ?? null },
+      }),
+    )
+    return existing
+  }
+
+  protected getConfiguredIndex(indexKey: string) {
+    const indexConfig = this.config_.settings?.[indexKey]
+    if (!indexConfig) {
+      throw new MedusaError(MedusaError.Types.NOT_FOUND, `Index ${indexKey} is not configured`)
+    }
+    return indexConfig
+  }
+
+  protected get merchandisingRuleService_(): ModulesSdkTypes.IMedusaInternalService<MerchandisingRuleDTO> {
+    return this.container_.meilisearchMerchandisingRuleService
+  }
+
+  async listMerchandisingRules(
+    pagination: { skip?: number; take?: number } = {},
+  ): Promise<[MerchandisingRuleDTO[], number]> {
+    return this.merchandisingRuleService_.listAndCount({}, { ...pagination, order: { created_at: 'DESC' } })
+  }
+
+  async retrieveMerchandisingRule(id: string): Promise<MerchandisingRuleDTO> {
+    return this.merchandisingRuleService_.retrieve(id)
+  }
+
+  /**
+   * Enabled merchandising rules that apply to a search query at this moment
+   */
+  async getApplicableMerchandisingRules(query: string): Promise<MerchandisingRuleDTO[]> {
+    const rules = await this.getEnabledRules('merchandising', () =>
+      this.merchandisingRuleService_.list({ enabled: true }),
+    )
+    const now = new Date()
+    return rules.filter((rule) => isRuleApplicable(rule, query, now))
+  }
+
+  async createMerchandisingRule(data: CreateMerchandisingRuleInput): Promise<MerchandisingRuleDTO> {
+    this.validateMerchandisingRule(data)
+    const rule = await this.merchandisingRuleService_.create(data)
+    this.ruleCache_.delete('merchandising')
+    return rule
+  }
+
+  async updateMerchandisingRule(id: string, data: UpdateMerchandisingRuleInput): Promise<MerchandisingRuleDTO> {
+    const rule = await this.merchandisingRuleService_.retrieve(id)
+    this.validateMerchandisingRule({ ...rule, ...data })
+    const updated = await this.merchandisingRuleService_.update({ id, ...data })
+    this.ruleCache_.delete('merchandising')
+    return updated
+  }
+
+  async deleteMerchandisingRule(id: string) {
+    await this.merchandisingRuleService_.delete(id)
+    this.ruleCache_.delete('merchandising')
+  }
+
+  protected validateMerchandisingRule({
+    action,
+    product_ids,
+    filters,
+    starts_at,
+    ends_at,
+  }: CreateMerchandisingRuleInput) {
+    if (action === 'pin' && !product_ids?.length) {
+      throw new MedusaError(MedusaError.Types.INVALID_DATA, 'Pin rules require product_ids')
+    }
+    if (!product_ids?.length && !Object.keys(filters ?? {}).length) {
+      throw new MedusaError(MedusaError.Types.INVALID_DATA, `${action} rules require product_ids or filters`)
+    }
+    if (starts_at && ends_at && new Date(starts_at) >= new Date(ends_at)) {
+      throw new MedusaError(MedusaError.Types.INVALID_DATA, 'ends_at must be after starts_at')
+    }
+
+    // The rules are applied to the product indexes searched by the store
+    this.getBaseIndexesByType(SearchUtils.indexTypes.PRODUCTS).forEach((indexKey) =>
+      this.validateSearchAttributes(indexKey, { filters: filters ?? undefined }),
+    )
+  }
+
+  protected get queryRuleService_(): ModulesSdkTypes.IMedusaInternalService<QueryRuleDTO> {
+    return this.container_.meilisearchQueryRuleService
+  }
+
+  async listQueryRules(pagination: { skip?: number; take?: number } = {}): Promise<[QueryRuleDTO[], number]> {
+    return this.queryRuleService_.listAndCount({}, { ...pagination, order: { created_at: 'DESC' } })
+  }
+
+  async retrieveQueryRule(id: string): Promise<QueryRuleDTO> {
+    return this.queryRuleService_.retrieve(id)
+  }
+
+  /**
+   * Resolve the redirect and banners of the query rules that apply to a search query at this moment.
+   * Exact matches take precedence over contained queries for the redirect, banners of all rules are combined.
+   */
+  async resolveQueryRules(query: string): Promise<{ redirect?: string; banners: QueryBanner[] }> {
+    const now = new Date()
+    const rules = (
+      await this.getEnabledRules('query', () =>
+        this.queryRuleService_.list({ enabled: true }, { order: { created_at: 'DESC' } }),
+      )
+    )
+      .filter((rule) => isRuleApplicable(rule, query, now))
+      .sort((a, b) => Number(b.match_type === 'exact') - Number(a.match_type === 'exact'))
+
+    return {
+      redirect: rules.find((rule) => rule.redirect_url)?.redirect_url ?? undefined,
+      banners: rules.flatMap((rule) => rule.banners ?? []),
+    }
+  }
+
+  async createQueryRule(data: CreateQueryRuleInput): Promise<QueryRuleDTO> {
+    this.validateQueryRule(data)
+    const rule = await this.queryRuleService_.create(data)
+    this.ruleCache_.delete('query')
+    return rule
+  }
+
+  async updateQueryRule(id: string, data: UpdateQueryRuleInput): Promise<QueryRuleDTO> {
+    const rule = await this.queryRuleService_.retrieve(id)
+    this.validateQueryRule({ ...rule, ...data })
+    const updated = await this.queryRuleService_.update({ id, ...data })
+    this.ruleCache_.delete('query')
+    return updated
+  }
+
+  async deleteQueryRule(id: string) {
+    await this.queryRuleService_.delete(id)
+    this.ruleCache_.delete('query')
+  }
+
+  /**
+   * Enabled rules of a kind, cached for a short time. Writes clear the cache of this instance,
+   * other instances pick up the changes once their cache expires.
+   */
+  protected getEnabledRules<T>(kind: 'merchandising' | 'query', load: () => Promise<T[]>): Promise<T[]> {
+    const cached = this.ruleCache_.get(kind)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.rules as Promise<T[]>
+    }
+
+    const rules = load()
+    this.ruleCache_.set(kind, { rules, expiresAt: Date.now() + RULE_CACHE_TTL_MS })
+    // Failed reads are not cached
+    rules.catch(() => {
+      if (this.ruleCache_.get(kind)?.rules === rules) {
+        this.ruleCache_.delete(kind)
+      }
+    })
+    return rules
+  }
+
+  protected validateQueryRule({ redirect_url, banners, starts_at, ends_at }: CreateQueryRuleInput) {
+    if (!redirect_url && !banners?.length) {
+      throw new MedusaError(MedusaError.Types.INVALID_DATA, 'Query rules require a redirect_url or banners')
+    }
+    if (starts_at && ends_at && new Date(starts_at) >= new Date(ends_at)) {
+      throw new MedusaError(MedusaError.Types.INVALID_DATA, 'ends_at must be after starts_at')
+    }
+  }
+
+  protected get checkpointService_(): ModulesSdkTypes.IMedusaInternalService<IndexCheckpointDTO> {
+    return this.container_.meilisearchIndexCheckpointService
+  }
+
+  async getCheckpoint(indexKey: string, language?: string): Promise<IndexCheckpointDTO | null> {
+    const [checkpoint] = await this.checkpointService_.list({ index_key: indexKey, language: language ?? null })
+    return checkpoint ?? null
+  }
+
+  async listCheckpoints(indexKeys?: string[]): Promise<IndexCheckpointDTO[]> {
+    return this.checkpointService_.list(indexKeys ? { index_key: indexKeys } : {})
+  }
+
+  async saveCheckpoint(
+    indexKey: string,
+    language: string | undefined,
+    data: Pick<IndexCheckpointDTO, 'last_updated_at'>,
+  ): Promise<IndexCheckpointDTO> {
+    const existing = await this.getCheckpoint(indexKey, language)
+    if (existing) {
+      return this.checkpointService_.update({ id: existing.id, ...data })
+    }
+
+    return this.checkpointService_.create({ index_key: indexKey, language: language ?? null, ...data })
+  }
+
+  /**
+   * Remove the checkpoints of the given indexes (or all indexes), so the next incremental sync fetches everything
+   */
+  async resetCheckpoints(indexKeys?: string[]) {
+    const checkpoints = await this.listCheckpoints(indexKeys)
+    if (checkpoints.length) {
+      await this.checkpointService_.delete(checkpoints.map((checkpoint) => checkpoint.id))
+    }
+
+    return checkpoints
+  }
+
+  protected get indexSyncService_(): ModulesSdkTypes.IMedusaInternalService<IndexSyncDTO> {
+    return this.container_.meilisearchIndexSyncService
+  }
+
+  async listSyncs(indexKeys?: string[]): Promise<IndexSyncDTO[]> {
+    return this.indexSyncService_.list(indexKeys ? { index_key: indexKeys } : {})
+  }
+
+  /**
+   * Store the result of a sync of an index, replacing the result of the previous sync
+   */
+  async recordSync(
+    indexKey: string,
+    language: string | undefined,
+    data: Pick<IndexSyncDTO, 'status' | 'document_count'> & { error?: string | null },
+  ): Promise<IndexSyncDTO> {
+    const [existing] = await this.indexSyncService_.list({ index_key: indexKey, language: language ?? null })
+    const sync = { ...data, error: data.error ?? null, synced_at: new Date() }
+    if (existing) {
+      return this.indexSyncService_.update({ id: existing.id, ...sync })
+    }
+
+    return this.indexSyncService_.create({ index_key: indexKey, language: language ?? null, ...sync })
+  }
+
+  /**
+   * Document counts and indexing state of every configured index, including language variants and disabled indexes
+   */
+  async getStats(): Promise<IndexStats> {
+    const [stats, syncs] = await Promise.all([this.client_.getStats(), this.listSyncs()])
+    const pendingRebuilds = this.getPendingRebuilds()
+
+    const indexes = Object.entries(this.config_.settings || {}).flatMap(([indexKey, config]) =>
+      this.getIndexLanguages().map((language) => {
+        const indexUid = this.getIndexUid(indexKey, language)
+        const indexStats = stats.indexes[indexUid]
+
+        return {
+          indexKey,
+          language,
+          indexUid,
+          type: config.type,
+          enabled: config.enabled !== false,
+          exists: !!indexStats,
+          numberOfDocuments: indexStats?.numberOfDocuments ?? 0,
+          isIndexing: indexStats?.isIndexing ?? false,
+          lastSync: syncs.find((sync) => sync.index_key === indexKey && sync.language === (language ?? null)) ?? null,
+          rebuildReasons: pendingRebuilds.find((rebuild) => rebuild.indexUid === indexUid)?.reasons ?? [],
+        }
+      }),
+    )
+
+    return {
+      databaseSize: stats.databaseSize,
+      lastUpdate: stats.lastUpdate ?? null,
+      indexes,
+    }
+  }
+
+  /**
+   * Whether the Meilisearch server is reachable, does not throw when it is not
+   */
+  async getHealth(): Promise<HealthStatus> {
+    try {
+      await this.client_.health()
+      const { pkgVersion } = await this.client_.getVersion()
+      return { status: 'available', version: pkgVersion }
+    } catch (error) {
+      return { status: 'unavailable', error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  protected get syncRunService_(): ModulesSdkTypes.IMedusaInternalService<SyncRunDTO> {
+    return this.container_.meilisearchSyncRunService
+  }
+
+  /**
+   * Create a sync run, which is executed by the `meilisearch.sync` subscriber
+   */
+  async createSyncRun(data: { mode: SyncRunMode; index_keys?: string[]; language?: string }): Promise<SyncRunDTO> {
+    const unknownIndexKeys = (data.index_keys ?? []).filter((indexKey) => !this.config_.settings?.[indexKey])
+    if (unknownIndexKeys.length) {
+      throw new MedusaError(MedusaError.Types.INVALID_DATA, `Unknown indexes: ${unknownIndexKeys.join(', ')}`)
+    }
+
+    return this.syncRunService_.create({
+      mode: data.mode,
+      index_keys: data.index_keys?.length ? data.index_keys : null,
+      language: data.language ?? null,
+    })
+  }
+
+  async retrieveSyncRun(id: string): Promise<SyncRunDTO> {
+    return this.syncRunService_.retrieve(id)
+  }
+
+  async listSyncRuns(pagination: { skip?: number; take?: number } = {}): Promise<[SyncRunDTO[], number]> {
+    return this.syncRunService_.listAndCount({}, { ...pagination, order: { created_at: 'DESC' } })
+  }
+
+  async startSyncRun(id: string): Promise<SyncRunDTO> {
+    return this.syncRunService_.update({ id, status: 'running', started_at: new Date() })
+  }
+
+  /**
+   * Add the progress of a step to the totals of a sync run
+   */
+  async reportSyncProgress(id: string, { batches = 0, added = 0, deleted = 0, error }: SyncRunProgress) {
+    const update = (this.syncRunUpdates_.get(id) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(async () => {
+        const run = await this.syncRunService_.retrieve(id)
+        return this.syncRunService_.update({
+          id,
+          batches_done: run.batches_done + batches,
+          documents_added: run.documents_added + added,
+          documents_deleted: run.documents_deleted + deleted,
+          ...(error ? { errors: [...(run.errors ?? []), error] } : {}),
+        })
+      })
+
+    this.syncRunUpdates_.set(id, update)
+    try {
+      return await update
+    } finally {
+      if (this.syncRunUpdates_.get(id) === update) {
+        this.syncRunUpdates_.delete(id)
+      }
+    }
+  }
+
+  /**
+   * Complete a sync run, which failed when any index failed or the given error is set
+   */
+  async finishSyncRun(id: string, error?: string): Promise<SyncRunDTO> {
+    await this.syncRunUpdates_.get(id)?.catch(() => undefined)
+
+    const run = error
+      ? await this.reportSyncProgress(id, { error: { message: error } })
+      : await this.retrieveSyncRun(id)
+    return this.syncRunService_.update({
+      id,
+      status: run.errors?.length ? 'failed' : 'succeeded',
+      finished_at: new Date(),
+    })
+  }
+
+  /**
+   * UIDs of the product indexes, including the index of every language
+   */
+  protected getProductIndexUids() {
+    return this.getBaseIndexesByType(SearchUtils.indexTypes.PRODUCTS).flatMap((indexKey) =>
+      this.getIndexLanguages().map((language) => this.getIndexUid(indexKey, language)),
+    )
+  }
+
+  /**
+   * Find the search key by its name, so a rotation by another instance is picked up immediately
+   */
+  protected async findSearchKey(): Promise<Key | null> {
+    const { results } = await this.client_.getKeys({ limit: 1000 })
+    return results.find((key) => key.name === SEARCH_KEY_NAME) ?? null
+  }
+
+  protected toSearchKeyInfo({ uid, name, indexes, createdAt }: Key): SearchKeyInfo {
+    return { uid, name, indexes, createdAt }
+  }
+
+  async getSearchKey(): Promise<SearchKeyInfo | null> {
+    const searchKey = await this.findSearchKey()
+    return searchKey ? this.toSearchKeyInfo(searchKey) : null
+  }
+
+  /**
+   * Create the search-only API key that signs tenant tokens, replacing the previous key.
+   * Tokens signed with the previous key are no longer accepted.
+   */
+  async rotateSearchKey(): Promise<SearchKeyInfo> {
+    const { results } = await this.client_.getKeys({ limit: 1000 })
+
+    const searchKey = await this.client_.createKey({
+      name: SEARCH_KEY_NAME,
+      description: 'Signs the tenant tokens issued to the Medusa storefront',
+      actions: ['search'],
+      indexes: this.getProductIndexUids(),
+      expiresAt: null,
+    })
+
+    await Promise.all(
+      results.filter((key) => key.name === SEARCH_KEY_NAME).map((key) => this.client_.deleteKey(key.uid)),
+    )
+
+    return this.toSearchKeyInfo(searchKey)
+  }
+
+  /**
+   * Issue a tenant token restricted to the product indexes, only returning published products
+   * of the given sales channels that are visible to the given customer groups.
+   * Tokens are only issued for at least one sales channel, as they would otherwise give access to every sales channel.
+   */
+  async generateTenantToken({
+    salesChannelIds,
+    customerGroupIds = [],
+  }: {
+    salesChannelIds?: string[]
+    customerGroupIds?: string[]
+  }): Promise<TenantToken> {
+    const { tenantTokens, config } = this.config_
+    if (!tenantTokens) {
+      throw new MedusaError(MedusaError.Types.NOT_ALLOWED, 'Tenant tokens are not enabled')
+    }
+    if (!salesChannelIds?.length) {
+      throw new MedusaError(MedusaError.Types.NOT_ALLOWED, 'Tenant tokens require at least one sales channel')
+    }
+
+    const searchKey = await this.findSearchKey()
+    if (!searchKey) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        'No search key to sign tenant tokens, create it with POST /admin/meilisearch/search-key',
+      )
+    }
+
+    // Products without customer groups are visible to every customer
+    const customerGroupAttribute = tenantTokens.customerGroupAttribute ?? DEFAULT_CUSTOMER_GROUP_ATTRIBUTE
+    const customerGroupFilter = [
+      `${customerGroupAttribute} NOT EXISTS`,
+      `${customerGroupAttribute} IS EMPTY`,
+      ...(customerGroupIds.length
+        ? [`${customerGroupAttribute} IN [${customerGroupIds.map(escapeFilterValue).join(', ')}]`]
+        : []),
+    ].join(' OR ')
+
+    const filter = [
+      ...buildFilterExpression({
+        status: 'published',
+        sales_channel_ids: salesChannelIds,
+      }),
+      `(${customerGroupFilter})`,
+    ].join(' AND ')
+
+    const indexUids = this.getProductIndexUids()
+    const expiresAt = new Date(Date.now() + (tenantTokens.expiresIn ?? DEFAULT_TENANT_TOKEN_EXPIRES_IN) * 1000)
+    const token = await generateTenantToken({
+      apiKey: searchKey.key,
+      apiKeyUid: searchKey.uid,
+      searchRules: Object.fromEntries(indexUids.map((indexUid) => [indexUid, { filter }])),
+      expiresAt,
+    })
+
+    return { token, expiresAt, host: tenantTokens.host ?? config.host, indexUids }
+  }
+
+  protected get searchQueryService_(): ModulesSdkTypes.IMedusaInternalService<SearchQueryDTO> {
+    return this.container_.meilisearchSearchQueryService
+  }
+
+  getSuggestionsIndexKey(): string | undefined {
+    const { suggestions } = this.config_
+    return suggestions ? (suggestions.indexKey ?? DEFAULT_SUGGESTIONS_INDEX_KEY) : undefined
+  }
+
+  /**
+   * Count a store search of a query, when query suggestions are enabled
+   */
+  async recordSearchQuery(query: string, language: string | undefined, hitCount: number) {
+    const normalizedQuery = query.trim().toLowerCase().replace(/\s+/g, ' ')
+    if (!this.config_.suggestions || normalizedQuery.length < MIN_RECORDED_QUERY_LENGTH) {
+      return
+    }
+
+    const queryLanguage = language ?? this.config_.i18n?.defaultLanguage ?? null
+    const key = `${queryLanguage}:${normalizedQuery}`
+    const update = (this.searchQueryUpdates_.get(key) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(async () => {
+        const [existing] = await this.searchQueryService_.list({ query: normalizedQuery, language: queryLanguage })
+        const data = { hit_count: hitCount, last_searched_at: new Date() }
+        return existing
+          ? this.searchQueryService_.update({ id: existing.id, count: existing.count + 1, ...data })
+          : this.searchQueryService_.create({ query: normalizedQuery, language: queryLanguage, count: 1, ...data })
+      })
+
+    this.searchQueryUpdates_.set(key, update)
+    try {
+      await update
+    } finally {
+      if (this.searchQueryUpdates_.get(key) === update) {
+        this.searchQueryUpdates_.delete(key)
+      }
+    }
+  }
+
+  /**
+   * Create the suggestions indexes with their settings, so they can be searched before they are populated
+   */
+  async ensureSuggestionsIndexes(): Promise<TaskOutcome[]> {
+    const indexKey = this.getSuggestionsIndexKey()
+    if (!indexKey) {
+      return []
+    }
+
+    // Updating the settings of a missing index creates it
+    return this.resolveTasks(
+      Promise.all(
+        this.getIndexLanguages().map((language) =>
+          this.client_.index(this.getIndexUid(indexKey, language)).updateSettings(SUGGESTIONS_INDEX_SETTINGS),
+        ),
+      ),
+    )
+  }
+
+  /**
+   * Replace the documents of the suggestions indexes with the most searched queries that returned hits
+   */
+  async populateSuggestions(): Promise<SuggestionsPopulation[]> {
+    const indexKey = this.getSuggestionsIndexKey()
+    if (!indexKey) {
+      return []
+    }
+
+    const { minSearches = DEFAULT_SUGGESTIONS_MIN_SEARCHES, maxQueries = DEFAULT_SUGGESTIONS_MAX_QUERIES } =
+      this.config_.suggestions ?? {}
+    const populatedAt = Date.now()
+
+    return Promise.all(
+      this.getIndexLanguages().map(async (language) => {
+        const indexUid = this.getIndexUid(indexKey, language)
+        const index = this.client_.index(indexUid)
+
+        const queries = await this.searchQueryService_.list(
+          {
+            count: { $gte: minSearches },
+            hit_count: { $gt: 0 },
+            // Separate indexes only hold the queries of their language
+            ...(language ? { language } : {}),
+          },
+          { take: maxQueries, order: { count: 'DESC' } },
+        )
+
+        // Tasks of an index are processed in order, so the outdated queries are deleted after the new ones are added
+        const tasks = [await index.updateSettings(SUGGESTIONS_INDEX_SETTINGS)]
+        if (queries.length) {
+          tasks.push(
+            await index.addDocuments(
+              queries.map(({ id, query, language, count }) => ({
+                id,
+                query,
+                language,
+                count,
+                populated_at: populatedAt,
+              })),
+            ),
+          )
+        }
+        tasks.push(await index.deleteDocuments({ filter: `populated_at < ${populatedAt}` }))
+
+        return { indexUid, language, queryCount: queries.length, tasks: await this.resolveTasks(tasks) }
+      }),
+    )
+  }
+
+  /**
+   * Lightweight type-ahead suggestions: products with highlighted titles, matching categories and collections,
+   * and completions of the query from the suggestions index
+   */
+  async suggest(
+    query: string,
+    {
+      language,
+      salesChannelIds,
+      limit = DEFAULT_SUGGEST_LIMIT,
+      highlightPreTag,
+      highlightPostTag,
+    }: SuggestOptions = {},
+  ): Promise<SuggestResponse> {
+    const { i18n } = this.config_
+    // Translated fields are suffixed with the language when the languages share an index
+    const localize = (attributes: string[]) =>
+      i18n?.strategy === 'field-suffix' && language
+        ? attributes.flatMap((attribute) => [attribute, `${attribute}_${language}`])
+        : attributes
+
+    type Group = 'products' | 'categories' | 'collections' | 'completions'
+    const groups: { group: Group; indexKeys: string[]; attributes: string[]; highlight: string[]; filter?: Filter }[] =
+      [
+        {
+          group: 'products',
+          indexKeys: this.getBaseIndexesByType(SearchUtils.indexTypes.PRODUCTS),
+          attributes: ['id', 'handle', 'thumbnail', ...localize(['title'])],
+          highlight: localize(['title']),
+          filter: this.buildSearchFilter({ salesChannelIds }),
+        },
+        {
+          group: 'categories',
+          indexKeys: this.getBaseIndexesByType(meilisearchIndexTypes.CATEGORIES),
+          attributes: ['id', 'handle', 'handle_path', ...localize(['name', 'path'])],
+          highlight: localize(['name']),
+        },
+        {
+          group: 'collections',
+          indexKeys: this.getBaseIndexesByType(meilisearchIndexTypes.COLLECTIONS),
+          attributes: ['id', 'handle', ...localize(['title'])],
+          highlight: localize(['title']),
+        },
+      ]
+
+    const suggestionsIndexKey = this.getSuggestionsIndexKey()
+    if (suggestionsIndexKey) {
+      groups.push({
+        group: 'completions',
+        indexKeys: [suggestionsIndexKey],
+        attributes: ['query', 'count'],
+        highlight: ['query'],
+        // Separate indexes only hold the queries of their language
+        filter:
+          language && i18n?.strategy !== 'separate-index' ? `language = ${escapeFilterValue(language)}` : undefined,
+      })
+    }
+
+    const queries = groups.flatMap(({ group, indexKeys, attributes, highlight, filter }) =>
+      indexKeys.map((indexKey) => ({ group, indexKey, attributes, highlight, filter })),
+    )
+
+    const { results } = await this.client_.multiSearch({
+      queries: queries.map(({ indexKey, attributes, highlight, filter }) => ({
+        indexUid: this.getIndexUid(indexKey, language),
+        q: query,
+        filter,
+        limit,
+        attributesToRetrieve: attributes,
+        attributesToHighlight: highlight,
+        highlightPreTag,
+        highlightPostTag,
+        showRankingScore: true,
+      })),
+    })
+
+    // Hits of the indexes of a group are ranked together
+    const getHits = (group: Group): FederatedSearchHit[] =>
+      results
+        .flatMap((result, position) =>
+          queries[position].group === group
+            ? result.hits.map((hit) => ({ ...hit, _index: queries[position].indexKey }))
+            : [],
+        )
+        .sort((a, b) => (b._rankingScore ?? 0) - (a._rankingScore ?? 0))
+        .slice(0, limit)
+
+    const completions: QueryCompletion[] = getHits('completions').map((hit) => ({
+      query: hit.query,
+      highlighted: hit._formatted?.query ?? hit.query,
+      count: hit.count,
+    }))
+
+    return {
+      query,
+      products: getHits('products'),
+      categories: getHits('categories'),
+      collections: getHits('collections'),
+      completions,
+    }
+  }
+
+  protected get deadLetterService_(): ModulesSdkTypes.IMedusaInternalService<DeadLetterDTO> {
+    return this.container_.meilisearchDeadLetterService
+  }
+
+  /**
+   * Run an index write, retrying it with exponential backoff when it throws or its tasks failed.
+   * A write that still fails is stored as a dead letter instead of throwing, so it can be retried later.
+   */
+  async writeWithRetry(
+    {
+      operation,
+      indexKey,
+      language,
+      documentIds,
+    }: { operation: IndexWriteOperation; indexKey: string; language?: string; documentIds: string[] },
+    write: () => Promise<TaskOutcome[]>,
+  ): Promise<DeadLetterDTO | null> {
+    const description = `${operation} of ${documentIds.length} documents in index ${indexKey}`
+
+    try {
+      await withRetry(
+        async () => {
+          const failedTasks = (await write()).filter(isTaskFailed)
+          if (failedTasks.length) {
+            throw new Error(failedTasks.map(formatTaskError).join('; '))
+          }
+        },
+        this.config_.retry,
+        (error, attempt) => this._logger.warn(`Retrying ${description} after attempt ${attempt} failed: ${error}`),
+      )
+      return null
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this._logger.error(`Failed ${description}, stored as dead letter: ${message}`)
+
+      return this.deadLetterService_.create({
+        operation,
+        index_key: indexKey,
+        language: language ?? null,
+        document_ids: documentIds,
+        error: message,
+        attempts: getMaxAttempts(this.config_.retry),
+        last_attempted_at: new Date(),
+      })
+    }
+  }
+
+  /**
+   * Write the current state of documents to an index: upserts fetch the documents again with the index fetcher,
+   * and remove the documents that are no longer returned
+   */
+  protected async runIndexWrite(
+    operation: IndexWriteOperation,
+    indexKey: string,
+    documentIds: string[],
+    language: string | undefined,
+    container: any,
+  ): Promise<TaskOutcome[]> {
+    if (operation === 'delete') {
+      return this.resolveTasks(this.deleteDocuments(indexKey, documentIds, language))
+    }
+
+    const documents = await this.fetchDocuments(indexKey, container, {
+      filters: { [this.getPrimaryKey(indexKey)]: documentIds },
+      language,
+    })
+    const fetchedIds = new Set(documents.map((document) => this.getDocumentId(indexKey, document)))
+    const removedIds = documentIds.filter((id) => !fetchedIds.has(id))
+
+    return [
+      ...(documents.length
+        ? await this.resolveTasks(this.addDocumentsInBatches(indexKey, documents, language, container))
+        : []),
+      ...(removedIds.length ? await this.resolveTasks(this.deleteDocuments(indexKey, removedIds, language)) : []),
+    ]
+  }
+
+  async listDeadLetters(
+    filters: { index_key?: string | string[]; operation?: IndexWriteOperation } = {},
+    config: { skip?: number; take?: number } = {},
+  ): Promise<[DeadLetterDTO[], number]> {
+    return this.deadLetterService_.listAndCount(filters, { order: { created_at: 'DESC' }, ...config })
+  }
+
+  /**
+   * Retry a dead letter. It is removed when the write succeeds, and returned with the new error otherwise.
+   */
+  async retryDeadLetter(id: string, container: any): Promise<DeadLetterDTO | null> {
+    const deadLetter = await this.deadLetterService_.retrieve(id)
+    const language = deadLetter.language ?? undefined
+
+    try {
+      const failedTasks = (
+        await this.runIndexWrite(
+          deadLetter.operation,
+          deadLetter.index_key,
+          deadLetter.document_ids,
+          language,
+          container,
+        )
+      ).filter(isTaskFailed)
+      if (failedTasks.length) {
+        throw new Error(failedTasks.map(formatTaskError).join('; '))
+      }
+    } catch (error) {
+      return this.deadLetterService_.update({
+        id,
+        error: error instanceof Error ? error.message : String(error),
+        attempts: deadLetter.attempts + 1,
+        last_attempted_at: new Date(),
+      })
+    }
+
+    await this.deadLetterService_.delete(id)
+    return null
+  }
+
+  async discardDeadLetter(id: string) {
+    const deadLetter = await this.deadLetterService_.retrieve(id)
+    await this.deadLetterService_.delete(id)
+
+    return deadLetter
+  }
+
+  async getDocumentFetcher(indexKey: string): Promise<DocumentFetcher | null> {
+    const indexConfig = this.config_.settings?.[indexKey]
+    if (!indexConfig || indexConfig.enabled === false) {
+      return null
+    }
+
+    // Return custom fetcher if provided
+    if (indexConfig.fetcher) {
+      return indexConfig.fetcher
+    }
+
+    // Default fetcher for products
+    if (indexConfig.type === SearchUtils.indexTypes.PRODUCTS) {
+      // Use arrow function to preserve 'this' context
+      return async (container: any, options: DocumentFetcherOptions) => {
+        const queryService = container.resolve('query')
+        const fields = await this.getFieldsForType(SearchUtils.indexTypes.PRODUCTS)
+
+        const { data: products } = await queryService.graph({
+          entity: 'product',
+          fields: fields,
+          pagination: {
+            take: options.limit,
+            skip: options.offset,
+            order: options.order,
+          },
+          filters: {
+            status: 'published',
+            ...options.filters,
+          },
+        })
+
+        return products
+      }
+    }
+
+    switch (indexConfig.type) {
+      // Default fetcher for variants of published products
+      case meilisearchIndexTypes.VARIANTS:
+        return this.createQueryFetcher(indexConfig.type, DEFAULT_FETCHER_ENTITIES[indexConfig.type], {
+          product: { status: 'published' },
+        })
+
+      // Default fetcher for active, public categories including their ancestors
+      case meilisearchIndexTypes.CATEGORIES:
+        return this.createQueryFetcher(
+          indexConfig.type,
+          DEFAULT_FETCHER_ENTITIES[indexConfig.type],
+          { is_active: true, is_internal: false },
+          resolveCategoryAncestors,
+        )
+
+      // Default fetcher for collections
+      case meilisearchIndexTypes.COLLECTIONS:
+        return this.createQueryFetcher(indexConfig.type, DEFAULT_FETCHER_ENTITIES[indexConfig.type])
+    }
+
+    // No fetcher available for this index type
+    return null
+  }
+
+  /**
+   * Create a fetcher that queries an entity with the fields of the index type
+   */
+  protected createQueryFetcher(
+    type: string,
+    entity: string,
+    defaultFilters: Record<string, unknown> = {},
+    enrich?: (container: any, documents: any[]) => Promise<any[]>,
+  ): DocumentFetcher {
+    // Use arrow function to preserve 'this' context
+    return async (container: any, options: DocumentFetcherOptions) => {
+      const queryService = container.resolve('query')
+      const fields = await this.getFieldsForType(type)
+
+      const { data: documents } = await queryService.graph({
+        entity,
+        fields,
+        pagination: {
+          take: options.limit,
+          skip: options.offset,
+          order: options.order,
+        },
+        filters: {
+          ...defaultFilters,
+          ...options.filters,
+        },
+      })
+
+      return enrich ? enrich(container, documents) : documents
+    }
+  }
+
+  /**
+   * IDs of the records of an index with a default fetcher that were updated or deleted since the given time,
+   * including the records the fetcher no longer returns (e.g. unpublished products).
+   * Returns null for indexes with a custom fetcher, as their source is unknown.
+   */
+  async getChangedDocumentIds(
+    indexKey: string,
+    container: any,
+    since: Date,
+    filters: Record<string, unknown> = {},
+  ): Promise<string[] | null> {
+    const indexConfig = this.getIndexConfig(indexKey)
+    const entity = indexConfig?.type ? DEFAULT_FETCHER_ENTITIES[indexConfig.type] : undefined
+    if (!indexConfig || indexConfig.fetcher || !entity) {
+      return null
+    }
+
+    const queryService = container.resolve('query')
+    const primaryKey = this.getPrimaryKey(indexKey)
+    const batchSize = this.getBatchSize(indexKey)
+    const ids: string[] = []
+
+    for (let offset = 0; ; offset += batchSize) {
+      const { data: records } = await queryService.graph({
+        entity,
+        fields: [primaryKey],
+        filters: { ...filters, $or: [{ updated_at: { $gt: since } }, { deleted_at: { $gt: since } }] },
+        pagination: { take: batchSize, skip: offset, order: { [primaryKey]: 'ASC' } },
+        withDeleted: true,
+      })
+      ids.push(...records.map((record: Record<string, unknown>) => String(record[primaryKey])))
+
+      if (records.length < batchSize) {
+        return ids
+      }
+    }
+  }
+
+  protected getIndexEventTriggers(indexKey: string): IndexEventTrigger[] {
+    return (this.config_.settings?.[indexKey]?.events ?? []).map((trigger) =>
+      typeof trigger === 'string' ? { event: trigger } : trigger,
+    )
+  }
+
+  /**
+   * Names of all events that sync documents of enabled indexes
+   */
+  getIndexEventNames(): string[] {
+    const events = Object.entries(this.config_.settings || {})
+      .filter(([, config]) => config.enabled !== false)
+      .flatMap(([indexKey]) => this.getIndexEventTriggers(indexKey).map((trigger) => trigger.event))
+
+    return [...new Set(events)]
+  }
+
+  /**
+   * Resolve the indexes synced by an event, with the action and the IDs of the affected documents
+   */
+  resolveIndexEvent(eventName: string, data: any): { indexKey: string; action: IndexEventAction; ids: string[] }[] {
+    return Object.entries(this.config_.settings || {})
+      .filter(([, config]) => config.enabled !== false)
+      .flatMap(([indexKey]) =>
+        this.getIndexEventTriggers(indexKey)
+          .filter((trigger) => trigger.event === eventName)
+          .map((trigger) => ({
+            indexKey,
+            action: trigger.action ?? (eventName.endsWith('.deleted') ? 'delete' : 'upsert'),
+            ids: getEventIds(data, trigger.getIds),
+          })),
+      )
+      .filter(({ ids }) => ids.length > 0)
+  }
+
+  protected getProductEmbeddedEntityTriggers(indexKey: string): ProductEmbeddedEntityTrigger[] {
+    return (this.config_.settings?.[indexKey]?.embeds ?? []).map((embed) =>
+      typeof embed === 'string' ? PRODUCT_EMBEDDED_ENTITIES[embed] : embed,
+    )
+  }
+
+  /**
+   * Names of all events of the related entities embedded in product indexes
+   */
+  getProductEmbeddedEntityEventNames(): string[] {
+    const events = this.getBaseIndexesByType(SearchUtils.indexTypes.PRODUCTS).flatMap((indexKey) =>
+      this.getProductEmbeddedEntityTriggers(indexKey).flatMap((trigger) => trigger.events),
+    )
+
+    return [...new Set(events)]
+  }
+
+  /**
+   * Resolve the product indexes embedding the entities changed by an event, and the IDs of the affected products
+   */
+  async resolveProductEmbeddedEntityEvent(
+    eventName: string,
+    data: any,
+    container: any,
+  ): Promise<{ indexKeys: string[]; ids: string[] }> {
+    const indexKeys: string[] = []
+    const productIds = new Set<string>()
+
+    for (const indexKey of this.getBaseIndexesByType(SearchUtils.indexTypes.PRODUCTS)) {
+      const triggers = this.getProductEmbeddedEntityTriggers(indexKey).filter((trigger) =>
+        trigger.events.includes(eventName),
+      )
+
+      for (const trigger of triggers) {
+        const ids = getEventIds(data, trigger.getIds)
+        if (ids.length) {
+          const resolvedIds = await trigger.resolveProductIds(container, ids)
+          resolvedIds.forEach((id) => productIds.add(id))
+        }
+      }
+
+      if (triggers.length && !indexKeys.includes(indexKey)) {
+        indexKeys.push(indexKey)
+      }
+    }
+
+    return { indexKeys, ids: Array.from(productIds) }
+  }
+
+  async fetchDocuments(indexKey: string, container: any, options: DocumentFetcherOptions = {}): Promise<any[]> {
+    const fetcher = await this.getDocumentFetcher(indexKey)
+    if (!fetcher) {
+      console.log(`No document fetcher configured for index: ${indexKey}. Returning empty array.`)
+      return []
+    }
+
+    return fetcher(container, options)
+  }
+
+  /**
+   * Page through every document returned by the fetcher of an index, ordered by primary key.
+   * Paging stops early when the fetcher does not honour `limit` and `offset`.
+   */
+  async *iterateDocuments(
+    indexKey: string,
+    container: any,
+    {
+      batchSize = this.getBatchSize(indexKey),
+      ...options
+    }: Omit<DocumentFetcherOptions, 'limit' | 'offset'> & { batchSize?: number } = {},
+  ): AsyncGenerator<any[]> {
+    const primaryKey = this.getPrimaryKey(indexKey)
+    const order = options.order ?? { [primaryKey]: 'ASC' }
+    let offset = 0
+    let previousIds: string | undefined
+
+    while (true) {
+      const documents = await this.fetchDocuments(indexKey, container, { ...options, order, limit: batchSize, offset })
+      if (!documents.length) {
+        return
+      }
+
+      const ids = documents.map((document) => String(document[primaryKey])).join(',')
+      if (ids === previousIds) {
+        this._logger?.warn(`The fetcher of index ${indexKey} returned the same page twice, it must honour offset`)
+        return
+      }
+
+      yield documents
+
+      if (documents.length > batchSize) {
+        this._logger?.warn(`The fetcher of index ${indexKey} returned more documents than the limit of ${batchSize}`)
+        return
+      }
+      if (documents.length < batchSize) {
+        return
+      }
+
+      previousIds = ids
+      offset += batchSize
+    }
+  }
+
+  /**
+   * Page through the IDs of every document stored in an index
+   */
+  async *iterateDocumentIds(
+    indexKey: string,
+    language?: string,
+    batchSize = this.getBatchSize(indexKey),
+  ): AsyncGenerator<string[]> {
+    const primaryKey = this.getPrimaryKey(indexKey)
+    const index = this.client_.index(this.getIndexUid(indexKey, language))
+
+    let offset = 0
+    let hasMore = true
+
+    while (hasMore) {
+      const { results } = await index.getDocuments({ fields: [primaryKey], limit: batchSize, offset })
+      if (results.length) {
+        yield results.map((document) => String(document[primaryKey]))
+      }
+
+      offset += batchSize
+      hasMore = results.length >= batchSize
+    }
+  }
+
+  private async getTransformedDocuments(
+    indexKey: string,
+    documents: any[],
+    options?: TransformOptions,
+    container?: any,
+  ) {
+    if (!documents?.length) {
+      return []
+    }
+
+    const indexConfig = (this.config_.settings || {})[indexKey]
+    const transformerContainer = container || this.container_
+
+    // Resolve calculated prices for all products at once when pricing enrichment is enabled
+    const pricesByProduct =
+      indexConfig?.type === SearchUtils.indexTypes.PRODUCTS && indexConfig.pricing
+        ? await resolveProductPrices(
+            transformerContainer,
+            documents.map((doc) => doc.id),
+            indexConfig.pricing,
+          )
+        : {}
+    const getProductOptions = (doc: any): TransformOptions => ({ ...options, prices: pricesByProduct[doc.id] })
+
+    const concurrency = indexConfig?.transformConcurrency ?? DEFAULT_TRANSFORM_CONCURRENCY
+
+    // If a custom transformer is provided, use it
+    if (indexConfig?.transformer) {
+      // For products, provide the default transformer after container
+      if (indexConfig.type === SearchUtils.indexTypes.PRODUCTS) {
+        return mapWithConcurrency(documents, concurrency, (doc) =>
+          indexConfig.transformer!(doc, transformerContainer, transformProduct, getProductOptions(doc)),
+        )
+      }
+
+      // For other built-in types, provide their default transformer after container,
+      // for custom types, transformer handles everything
+      const defaultTransformer = DEFAULT_TRANSFORMERS[indexConfig.type ?? '']
+      return mapWithConcurrency(documents, concurrency, (doc) =>
+        (indexConfig.transformer! as DocumentTransformer)(doc, transformerContainer, defaultTransformer, {
+          ...options,
+        }),
+      )
+    }
+
+    // Default transformations based on type
+    switch (indexConfig?.type) {
+      case SearchUtils.indexTypes.PRODUCTS:
+        return documents.map((doc) => transformProduct(doc, getProductOptions(doc)))
+
+      default: {
+        // Use the default transformer of other built-in types, return documents of custom types as-is
+        const defaultTransformer = DEFAULT_TRANSFORMERS[indexConfig?.type ?? '']
+        return defaultTransformer ? documents.map((doc) => defaultTransformer(doc, options)) : documents
+      }
     }
   }
 }
@@ -1,5 +1,15 @@
-import { ProductDTO, SearchTypes } from '@medusajs/types'
-import { Config, Settings } from 'meilisearch'
+import { ProductDTO, ProductVariantDTO, SearchTypes } from '@medusajs/types'
+import {
+  Config,
+  FacetDistribution,
+  FacetStats,
+  Filter,
+  Hit,
+  SearchParams,
+  Settings,
+  TaskStatus,
+  TaskType,
+} from 'meilisearch'
 import { TransformOptions } from '../utils/transformer'
 import { TranslatableField } from './translation'
 
@@ -7,6 +17,15 @@ export const meilisearchErrorCodes = {
   INDEX_NOT_FOUND: 'index_not_found',
 }
 
+/**
+ * Index types with a default fetcher and transformer, next to `SearchUtils.indexTypes.PRODUCTS`
+ */
+export const meilisearchIndexTypes = {
+  VARIANTS: 'variants',
+  CATEGORIES: 'categories',
+  COLLECTIONS: 'collections',
+}
+
 export type I18nStrategy = 'separate-index' | 'field-suffix'
 
 export interface I18nConfig {
@@ -34,6 +53,360 @@ export interface I18nConfig {
   translatableFields?: (string | TranslatableField)[]
 }
 
+export type PriceContext = {
+  /**
+   * Currency to calculate prices in (e.g. 'eur')
+   */
+  currency_code: string
+
+  /**
+   * Optional region to calculate prices for, e.g. to apply region specific price rules
+   */
+  region_id?: string
+
+  /**
+   * Suffix of the price fields, defaults to the currency code (e.g. `min_price_eur`)
+   */
+  name?: string
+}
+
+export type ProductPricingOptions = {
+  /**
+   * Price contexts to calculate variant prices for.
+   * Each context adds `min_price_<name>` and `max_price_<name>` fields to the product documents,
+   * which are also registered as filterable and sortable attributes.
+   */
+  contexts: PriceContext[]
+}
+
+/**
+ * Lowest and highest calculated variant price of a product, keyed by price context name
+ */
+export type ProductPrices = Record<string, { min: number; max: number }>
+
+export type TasksOptions = {
+  /**
+   * Wait for the tasks enqueued by document and settings writes, so failed tasks are reported
+   */
+  wait?: boolean
+
+  /**
+   * Milliseconds to wait for a single task before reporting a timeout (defaults to 5000)
+   */
+  timeout?: number
+
+  /**
+   * Milliseconds between task status checks (defaults to 50)
+   */
+  interval?: number
+}
+
+/**
+ * Outcome of a Meilisearch task. When tasks are not awaited, the status is the one at enqueue time.
+ */
+export type TaskOutcome = {
+  taskUid: number
+  indexUid: string | null
+  type: TaskType
+  status: TaskStatus
+  error?: {
+    code: string
+    type: string
+    message: string
+  }
+}
+
+export type IndexCheckpointDTO = {
+  id: string
+  index_key: string
+  language: string | null
+  /**
+   * Start time of the last successful incremental sync. Records updated after it are fetched by the next sync.
+   */
+  last_updated_at: Date | null
+  created_at: Date
+  updated_at: Date
+}
+
+/**
+ * Index settings that can be edited from the admin
+ */
+export type OverridableSetting = 'synonyms' | 'stopWords' | 'rankingRules' | 'typoTolerance'
+
+export type SettingsOverrideDTO = {
+  id: string
+  index_key: string
+  setting: OverridableSetting
+  /**
+   * Replaces the configured value of the setting
+   */
+  value: Settings[OverridableSetting]
+  /**
+   * ID of the admin user who last changed the override
+   */
+  updated_by: string | null
+  created_at: Date
+  updated_at: Date
+}
+
+export type MerchandisingMatchType = 'exact' | 'contains'
+
+/**
+ * - `pin`: place the products at a fixed position
+ * - `boost`: rank the matching products higher
+ * - `bury`: rank the matching products lower
+ * - `hide`: remove the matching products from the results
+ */
+export type MerchandisingAction = 'pin' | 'boost' | 'bury' | 'hide'
+
+export type MerchandisingRuleDTO = {
+  id: string
+  name: string
+  /**
+   * Query the rule applies to, compared case-insensitively
+   */
+  query: string
+  match_type: MerchandisingMatchType
+  action: MerchandisingAction
+  /**
+   * Products the rule applies to. Pinned products are placed in this order.
+   */
+  product_ids: string[] | null
+  /**
+   * Structured filters selecting the products a boost, bury or hide rule applies to (e.g. `{ collection_id: 'pcol_1' }`)
+   */
+  filters: SearchFilters | null
+  /**
+   * Position (starting at 1) of the first pinned product
+   */
+  position: number | null
+  /**
+   * Multiplier of the ranking score of boosted or buried products
+   */
+  weight: number | null
+  enabled: boolean
+  starts_at: Date | null
+  ends_at: Date | null
+  created_at: Date
+  updated_at: Date
+}
+
+export type CreateMerchandisingRuleInput = Pick<MerchandisingRuleDTO, 'name' | 'query' | 'action'> &
+  Partial<
+    Pick<
+      MerchandisingRuleDTO,
+      'match_type' | 'product_ids' | 'filters' | 'position' | 'weight' | 'enabled' | 'starts_at' | 'ends_at'
+    >
+  >
+
+export type UpdateMerchandisingRuleInput = Partial<CreateMerchandisingRuleInput>
+
+/**
+ * Content block shown with the results of a search
+ */
+export type QueryBanner = {
+  title?: string
+  body?: string
+  image_url?: string
+  link_url?: string
+  /**
+   * Placement of the banner, interpreted by the storefront
+   */
+  position?: 'top' | 'bottom'
+}
+
+export type QueryRuleDTO = {
+  id: string
+  name: string
+  /**
+   * Query the rule applies to, compared case-insensitively
+   */
+  query: string
+  match_type: MerchandisingMatchType
+  redirect_url: string | null
+  banners: QueryBanner[] | null
+  enabled: boolean
+  starts_at: Date | null
+  ends_at: Date | null
+  created_at: Date
+  updated_at: Date
+}
+
+export type CreateQueryRuleInput = Pick<QueryRuleDTO, 'name' | 'query'> &
+  Partial<Pick<QueryRuleDTO, 'match_type' | 'redirect_url' | 'banners' | 'enabled' | 'starts_at' | 'ends_at'>>
+
+export type UpdateQueryRuleInput = Partial<CreateQueryRuleInput>
+
+export type IndexSyncStatus = 'succeeded' | 'failed'
+
+export type IndexSyncDTO = {
+  id: string
+  index_key: string
+  language: string | null
+  status: IndexSyncStatus
+  /**
+   * Number of documents written by the sync
+   */
+  document_count: number
+  error: string | null
+  synced_at: Date
+  created_at: Date
+  updated_at: Date
+}
+
+export type SyncRunMode = 'incremental' | 'full' | 'purge'
+
+export type SyncRunStatus = 'pending' | 'running' | 'succeeded' | 'failed'
+
+export type SyncRunError = {
+  index_key?: string
+  language?: string | null
+  message: string
+}
+
+export type SyncRunDTO = {
+  id: string
+  /**
+   * `incremental` syncs the documents changed since the last sync, `full` syncs every document and removes
+   * orphaned documents, `purge` only removes orphaned documents
+   */
+  mode: SyncRunMode
+  /**
+   * Synced indexes, all indexes when empty
+   */
+  index_keys: string[] | null
+  language: string | null
+  status: SyncRunStatus
+  batches_done: number
+  documents_added: number
+  documents_deleted: number
+  errors: SyncRunError[] | null
+  started_at: Date | null
+  finished_at: Date | null
+  created_at: Date
+  updated_at: Date
+}
+
+/**
+ * Progress reported by the steps of a sync run, added to the totals of the run
+ */
+export type SyncRunProgress = {
+  batches?: number
+  added?: number
+  deleted?: number
+  error?: SyncRunError
+}
+
+/**
+ * State of a configured index, as shown on the admin dashboard
+ */
+export type IndexStatus = {
+  indexKey: string
+  language?: string
+  indexUid: string
+  type?: string
+  enabled: boolean
+  /**
+   * Whether the index exists in Meilisearch
+   */
+  exists: boolean
+  numberOfDocuments: number
+  isIndexing: boolean
+  lastSync: IndexSyncDTO | null
+  /**
+   * Reasons why the index has to be rebuilt after a settings change, if any
+   */
+  rebuildReasons: string[]
+}
+
+export type IndexStats = {
+  databaseSize: number
+  lastUpdate: string | null
+  indexes: IndexStatus[]
+}
+
+export type HealthStatus = {
+  status: 'available' | 'unavailable'
+  version?: string
+  error?: string
+}
+
+export type IndexWriteOperation = 'upsert' | 'delete'
+
+/**
+ * Index write that still failed after all retries, which can be retried or discarded from the admin
+ */
+export type DeadLetterDTO = {
+  id: string
+  /**
+   * `upsert` fetches the documents again with the index fetcher, `delete` removes them
+   */
+  operation: IndexWriteOperation
+  index_key: string
+  language: string | null
+  document_ids: string[]
+  error: string
+  attempts: number
+  last_attempted_at: Date
+  created_at: Date
+  updated_at: Date
+}
+
+/**
+ * Documents of an index as stored before a write, used to undo the write when a workflow is rolled back
+ */
+export type IndexSnapshot = {
+  indexKey: string
+  language?: string
+  /**
+   * IDs of the documents affected by the write
+   */
+  ids: string[]
+  /**
+   * Stored documents of these IDs, documents that did not exist are missing
+   */
+  documents: Record<string, any>[]
+}
+
+export type SettingsChange = {
+  setting: string
+  from: unknown
+  to: unknown
+}
+
+/**
+ * Outcome of applying the configured settings to an index on startup
+ */
+export type SettingsMigration = {
+  indexKey: string
+  language?: string
+  indexUid: string
+  /**
+   * Whether the index did not exist and was created
+   */
+  created: boolean
+  /**
+   * Settings that differed from the live settings and were applied
+   */
+  changes: SettingsChange[]
+  /**
+   * Reasons why the index has to be rebuilt, empty when the stored documents are still valid
+   */
+  rebuildReasons: string[]
+  tasks: TaskOutcome[]
+}
+
+/**
+ * Index flagged for a rebuild after its settings changed
+ */
+export type PendingRebuild = {
+  indexKey: string
+  language?: string
+  indexUid: string
+  reasons: string[]
+  flaggedAt: Date
+}
+
 export type TransformedProduct = Record<string, any>
 
 export type DefaultProductTransformer<Result extends TransformedProduct = TransformedProduct> = (
@@ -41,6 +414,20 @@ export type DefaultProductTransformer<Result extends TransformedProduct = Transf
   options?: TransformOptions,
 ) => Result
 
+export type DefaultVariantTransformer<Result extends Record<string, any> = Record<string, any>> = (
+  document: ProductVariantDTO,
+  options?: TransformOptions,
+) => Result
+
+/**
+ * Category in the breadcrumb of a category document
+ */
+export type CategoryBreadcrumb = {
+  id: string
+  name: string
+  handle: string
+}
+
 export type ProductTransformer<Result extends TransformedProduct = TransformedProduct> = (
   document: ProductDTO,
   container: any,
@@ -48,10 +435,21 @@ export type ProductTransformer<Result extends TransformedProduct = TransformedPr
   options?: TransformOptions,
 ) => Promise<Result>
 
+/**
+ * Options of a document fetcher. Fetchers must honour `limit`, `offset` and `order`,
+ * as full syncs and purges page through all documents with them.
+ */
 export type DocumentFetcherOptions = {
+  /**
+   * Filters to apply. During incremental syncs, contains `updated_at: { $gt: <checkpoint> }`.
+   */
   filters?: Record<string, unknown>
   limit?: number
   offset?: number
+  /**
+   * Stable order of the pages (e.g. `{ id: 'ASC' }`), so no document is skipped or repeated between pages
+   */
+  order?: Record<string, 'ASC' | 'DESC'>
   language?: string
 }
 
@@ -64,6 +462,298 @@ export type DocumentTransformer<T = any, Result = Record<string, any>> = (
   options?: TransformOptions,
 ) => Promise<Result> | Result
 
+export type SearchFilterPrimitive = string | number | boolean
+
+export type SearchFilterRange = {
+  gt?: number
+  gte?: number
+  lt?: number
+  lte?: number
+}
+
+/**
+ * A filter value can be an exact match, a list of accepted values or a numeric range
+ */
+export type SearchFilterValue = SearchFilterPrimitive | SearchFilterPrimitive[] | SearchFilterRange
+
+/**
+ * Structured filters keyed by attribute name (e.g. `{ 'categories.id': ['pcat_1'], price: { gte: 10 } }`)
+ */
+export type SearchFilters = Record<string, SearchFilterValue | undefined>
+
+export type SearchOptions = {
+  language?: string
+  /**
+   * Raw Meilisearch filter expression
+   */
+  filter?: Filter
+  /**
+   * Structured filters, validated against the index `filterableAttributes`
+   */
+  filters?: SearchFilters
+  /**
+   * Attributes to return facet distribution for, validated against the index `filterableAttributes`
+   */
+  facets?: string[]
+  /**
+   * Sort rules (e.g. `['created_at:desc']`), validated against the index `sortableAttributes`
+   */
+  sort?: string[]
+  /**
+   * Only return products that are available in at least one of these sales channels
+   * (none when the list is empty)
+   */
+  salesChannelIds?: string[]
+  paginationOptions?: {
+    limit?: number
+    offset?: number
+  }
+  additionalOptions?: SearchParams
+  /**
+   * Merchandising rules to apply, only supported by federated searches
+   */
+  merchandisingRules?: MerchandisingRuleDTO[]
+} & Record<string, any>
+
+export type FederatedSearchHit = Hit & {
+  /**
+   * Key of the index the hit originates from
+   */
+  _index: string
+  /**
+   * Whether the hit was placed at its position by a merchandising rule
+   */
+  _pinned?: boolean
+}
+
+export type FederatedSearchResponse = {
+  hits: FederatedSearchHit[]
+  query: string
+  processingTimeMs: number
+  limit: number
+  offset: number
+  totalHits: number
+  totalPages: number
+  facetDistribution: FacetDistribution
+  facetStats: FacetStats
+}
+
+/**
+ * Response of the store search, with the outcome of the query rules matching the query
+ */
+export type StoreSearchResponse = FederatedSearchResponse & {
+  /**
+   * URL the customer should be taken to instead of the results. No search is run when set.
+   */
+  redirect?: string
+  banners?: QueryBanner[]
+}
+
+export type IndexEventAction = 'upsert' | 'delete'
+
+export type IndexEventTrigger = {
+  /**
+   * Name of the Medusa event (e.g. `order.placed`)
+   */
+  event: string
+
+  /**
+   * Whether the affected documents are fetched and upserted or deleted.
+   * Defaults to `delete` for events ending with `.deleted`, and `upsert` otherwise.
+   */
+  action?: IndexEventAction
+
+  /**
+   * Extract the IDs of the affected documents from the event payload.
+   * Defaults to `data.id` (a single ID or a list of IDs) or `data.ids`.
+   */
+  getIds?: (data: any) => string | string[] | undefined | null
+}
+
+/**
+ * Related entities embedded in product documents, which are reindexed when these entities change
+ */
+export type ProductEmbeddedEntity =
+  | 'categories'
+  | 'collections'
+  | 'types'
+  | 'tags'
+  | 'prices'
+  | 'price_lists'
+  | 'inventory'
+
+export type ProductEmbeddedEntityTrigger = {
+  /**
+   * Medusa events emitted when the embedded entity changes
+   */
+  events: string[]
+
+  /**
+   * Extract the IDs of the changed entities from the event payload.
+   * Defaults to `data.id` (a single ID or a list of IDs) or `data.ids`.
+   */
+  getIds?: (data: any) => string | string[] | undefined | null
+
+  /**
+   * Resolve the IDs of the products that embed the changed entities
+   */
+  resolveProductIds: (container: any, ids: string[]) => Promise<string[]>
+}
+
+export type RetryOptions = {
+  /**
+   * Number of attempts of an index write before it is stored as a dead letter (defaults to 3)
+   */
+  maxAttempts?: number
+
+  /**
+   * Milliseconds to wait before the first retry, doubled for every following retry (defaults to 500)
+   */
+  initialDelayMs?: number
+
+  /**
+   * Maximum milliseconds to wait between retries (defaults to 10000)
+   */
+  maxDelayMs?: number
+}
+
+export type ProductQueueAction = 'upsert' | 'delete'
+
+export type ProductQueueOptions = {
+  /**
+   * Milliseconds to collect product changes before they are synced in one batch (defaults to 1000)
+   */
+  windowMs?: number
+
+  /**
+   * Number of changed products after which the queue is synced early (defaults to 1000)
+   */
+  maxSize?: number
+}
+
+export type SettingsMigrationOptions = {
+  /**
+   * Rebuild indexes of which the settings changed in a way that requires reindexing, with a full reindex
+   * after startup. When disabled, these indexes are only flagged (defaults to false).
+   */
+  scheduleRebuild?: boolean
+}
+
+export type TenantTokenOptions = {
+  /**
+   * Seconds until an issued tenant token expires (defaults to 3600)
+   */
+  expiresIn?: number
+
+  /**
+   * Meilisearch host used by the storefront, when it differs from the host used by Medusa (defaults to `config.host`)
+   */
+  host?: string
+
+  /**
+   * Attribute of product documents holding the IDs of the customer groups that may see the product.
+   * Products without it are visible to all customers (defaults to `customer_group_ids`).
+   */
+  customerGroupAttribute?: string
+}
+
+export type SuggestionsOptions = {
+  /**
+   * Key of the index holding the query suggestions, suffixed with the language for separate indexes
+   * (defaults to `query_suggestions`)
+   */
+  indexKey?: string
+
+  /**
+   * Number of times a query has to be searched before it is suggested (defaults to 2)
+   */
+  minSearches?: number
+
+  /**
+   * Maximum number of queries in the suggestions index, the most searched queries are kept (defaults to 1000)
+   */
+  maxQueries?: number
+}
+
+/**
+ * Store search query, counted to populate the query suggestions
+ */
+export type SearchQueryDTO = {
+  id: string
+  /**
+   * Normalized query (trimmed and lowercase)
+   */
+  query: string
+  language: string | null
+  count: number
+  /**
+   * Number of hits of the last search of the query
+   */
+  hit_count: number
+  last_searched_at: Date
+  created_at: Date
+  updated_at: Date
+}
+
+export type SuggestionsPopulation = {
+  indexUid: string
+  language?: string
+  queryCount: number
+  tasks: TaskOutcome[]
+}
+
+export type QueryCompletion = {
+  query: string
+  /**
+   * Query with the matched part highlighted
+   */
+  highlighted: string
+  count: number
+}
+
+export type SuggestOptions = {
+  language?: string
+  /**
+   * Only suggest products that are available in at least one of these sales channels
+   * (none when the list is empty)
+   */
+  salesChannelIds?: string[]
+  /**
+   * Number of suggestions per group
+   */
+  limit?: number
+  highlightPreTag?: string
+  highlightPostTag?: string
+}
+
+export type SuggestResponse = {
+  query: string
+  products: FederatedSearchHit[]
+  categories: FederatedSearchHit[]
+  collections: FederatedSearchHit[]
+  completions: QueryCompletion[]
+}
+
+/**
+ * Short-lived token to search the product indexes directly from the storefront
+ */
+export type TenantToken = {
+  token: string
+  expiresAt: Date
+  host: string
+  indexUids: string[]
+}
+
+/**
+ * Parent search key of the tenant tokens, without the key itself
+ */
+export type SearchKeyInfo = {
+  uid: string
+  name: string | null
+  indexes: string[]
+  createdAt: Date
+}
+
 export interface MeilisearchPluginOptions {
   /**
    * Meilisearch client configuration
@@ -79,12 +769,39 @@ export interface MeilisearchPluginOptions {
       enabled?: boolean
       fields?: string[]
       indexSettings: Settings
+      /**
+       * Relative weight of this index when searching multiple indexes at once (defaults to 1).
+       * Hits from indexes with a higher weight rank higher.
+       */
+      weight?: number
+      /**
+       * Maximum number of documents fetched and sent to Meilisearch per request (defaults to 1000)
+       */
+      batchSize?: number
+      /**
+       * Maximum number of documents transformed at the same time by a custom transformer (defaults to 10)
+       */
+      transformConcurrency?: number
+      /**
+       * Opt-in pricing enrichment for product indexes
+       */
+      pricing?: ProductPricingOptions
+      /**
+       * Related entities embedded in the documents of a product index.
+       * When one of them changes, only the affected products are reindexed.
+       */
+      embeds?: (ProductEmbeddedEntity | ProductEmbeddedEntityTrigger)[]
       transformer?: ProductTransformer<Record<string, any>> | DocumentTransformer<any, Record<string, any>>
       /**
        * Custom function to fetch documents for this index.
        * If not provided, will use default fetcher based on type (e.g., products).
        */
       fetcher?: DocumentFetcher
+      /**
+       * Medusa events that sync the affected documents of this index, by calling the fetcher with an `id` filter.
+       * Either an event name, or an object to configure the action and the extraction of document IDs.
+       */
+      events?: (string | IndexEventTrigger)[]
     }
   }
 
@@ -92,4 +809,34 @@ export interface MeilisearchPluginOptions {
    * I18n configuration
    */
   i18n?: I18nConfig
+
+  /**
+   * Task handling configuration
+   */
+  tasks?: TasksOptions
+
+  /**
+   * Retries of index writes triggered by events
+   */
+  retry?: RetryOptions
+
+  /**
+   * Queue coalescing product events into batched syncs
+   */
+  productQueue?: ProductQueueOptions
+
+  /**
+   * Handling of index settings changes on startup
+   */
+  settingsMigration?: SettingsMigrationOptions
+
+  /**
+   * Tenant tokens for searching product indexes directly from the storefront
+   */
+  tenantTokens?: TenantTokenOptions
+
+  /**
+   * Query suggestions populated from the store searches, returned by the suggest route
+   */
+  suggestions?: SuggestionsOptions
 }
@@ -0,0 +1,37 @@
+import { InventoryEvents, PricingEvents } from '@medusajs/utils'
+import { getEventIds, PRODUCT_EMBEDDED_ENTITIES } from '../dependency'
+
+describe('PRODUCT_EMBEDDED_ENTITIES', () => {
+  it('listens for the events emitted by the pricing and inventory modules', () => {
+    expect(PRODUCT_EMBEDDED_ENTITIES.prices.events).toEqual([PricingEvents.PRICE_CREATED, PricingEvents.PRICE_UPDATED])
+    expect(PRODUCT_EMBEDDED_ENTITIES.price_lists.events).toEqual([
+      PricingEvents.PRICE_LIST_CREATED,
+      PricingEvents.PRICE_LIST_UPDATED,
+    ])
+    expect(PRODUCT_EMBEDDED_ENTITIES.inventory.events).toEqual([
+      InventoryEvents.INVENTORY_LEVEL_CREATED,
+      InventoryEvents.INVENTORY_LEVEL_UPDATED,
+    ])
+
+    expect([
+      ...PRODUCT_EMBEDDED_ENTITIES.prices.events,
+      ...PRODUCT_EMBEDDED_ENTITIES.price_lists.events,
+      ...PRODUCT_EMBEDDED_ENTITIES.inventory.events,
+    ]).toEqual([
+      'pricing.price.created',
+      'pricing.price.updated',
+      'pricing.price-list.created',
+      'pricing.price-list.updated',
+      'inventory.inventory-level.created',
+      'inventory.inventory-level.updated',
+    ])
+  })
+})
+
+describe('getEventIds', () => {
+  it('reads the IDs from the event data', () => {
+    expect(getEventIds({ id: 'price_1' })).toEqual(['price_1'])
+    expect(getEventIds({ ids: ['price_1', '', null] })).toEqual(['price_1'])
+    expect(getEventIds({ price_id: 'price_1' }, (data) => data.price_id)).toEqual(['price_1'])
+  })
+})
@@ -0,0 +1,53 @@
+import { buildFilterExpression, combineFilters, escapeFilterValue } from '../filter'
+
+describe('escapeFilterValue', () => {
+  it('quotes strings and escapes quotes and backslashes', () => {
+    expect(escapeFilterValue('red')).toBe('"red"')
+    expect(escapeFilterValue('say "hi" \\ bye')).toBe('"say \\"hi\\" \\\\ bye"')
+  })
+
+  it('keeps numbers and booleans unquoted', () => {
+    expect(escapeFilterValue(10)).toBe('10')
+    expect(escapeFilterValue(false)).toBe('false')
+  })
+})
+
+describe('buildFilterExpression', () => {
+  it('matches single values', () => {
+    expect(buildFilterExpression({ status: 'published', in_stock: true })).toEqual([
+      'status = "published"',
+      'in_stock = true',
+    ])
+  })
+
+  it('matches any value of a list', () => {
+    expect(buildFilterExpression({ sales_channel_ids: ['sc_1', 'sc_2'] })).toEqual([
+      'sales_channel_ids IN ["sc_1", "sc_2"]',
+    ])
+  })
+
+  it('translates ranges into one expression per bound', () => {
+    expect(buildFilterExpression({ price: { gte: 10, lt: 20 } })).toEqual(['price >= 10', 'price < 20'])
+  })
+
+  it('skips empty values', () => {
+    expect(buildFilterExpression({ a: undefined, b: null, c: [] } as any)).toEqual([])
+  })
+
+  it('rejects attribute names that are not valid filter attributes', () => {
+    expect(buildFilterExpression({ 'variants.sku': 'SKU_1' })).toEqual(['variants.sku = "SKU_1"'])
+    expect(() => buildFilterExpression({ 'status = "draft" OR id': 'prod_1' })).toThrow('Invalid filter attribute')
+    expect(() => buildFilterExpression({ 'sales channel': ['sc_1'] })).toThrow('Invalid filter attribute')
+  })
+})
+
+describe('combineFilters', () => {
+  it('returns undefined without filters', () => {
+    expect(combineFilters(undefined, [])).toBeUndefined()
+  })
+
+  it('appends the expressions to a raw filter', () => {
+    expect(combineFilters('a = 1', ['b = 2'])).toEqual(['a = 1', 'b = 2'])
+    expect(combineFilters(['a = 1', ['b = 2', 'c = 3']], ['d = 4'])).toEqual(['a = 1', ['b = 2', 'c = 3'], 'd = 4'])
+  })
+})
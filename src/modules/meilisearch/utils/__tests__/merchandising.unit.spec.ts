@@ -0,0 +1,96 @@
+import { MerchandisingRuleDTO } from '../../types'
+import { buildRuleFilter, getPinnedPositions, isRuleApplicable } from '../merchandising'
+
+const createRule = (data: Partial<MerchandisingRuleDTO> = {}): MerchandisingRuleDTO => ({
+  id: 'rule_1',
+  name: 'Rule',
+  query: 'shirt',
+  match_type: 'exact',
+  action: 'pin',
+  product_ids: null,
+  filters: null,
+  position: null,
+  weight: null,
+  enabled: true,
+  starts_at: null,
+  ends_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...data,
+})
+
+describe('isRuleApplicable', () => {
+  it('matches exact queries case-insensitively and ignoring whitespace', () => {
+    const rule = createRule({ query: 'Red  Shirt' })
+    expect(isRuleApplicable(rule, ' red shirt ')).toBe(true)
+    expect(isRuleApplicable(rule, 'red shirts')).toBe(false)
+  })
+
+  it('matches queries containing the rule query', () => {
+    const rule = createRule({ match_type: 'contains' })
+    expect(isRuleApplicable(rule, 'blue shirt sale')).toBe(true)
+    expect(isRuleApplicable(rule, 'shorts')).toBe(false)
+  })
+
+  it('does not match disabled rules or rules outside their schedule', () => {
+    const now = new Date('2026-06-01T00:00:00Z')
+    expect(isRuleApplicable(createRule({ enabled: false }), 'shirt', now)).toBe(false)
+    expect(isRuleApplicable(createRule({ starts_at: new Date('2026-07-01T00:00:00Z') }), 'shirt', now)).toBe(false)
+    expect(isRuleApplicable(createRule({ ends_at: new Date('2026-05-01T00:00:00Z') }), 'shirt', now)).toBe(false)
+    expect(
+      isRuleApplicable(
+        createRule({ starts_at: new Date('2026-05-01T00:00:00Z'), ends_at: new Date('2026-07-01T00:00:00Z') }),
+        'shirt',
+        now,
+      ),
+    ).toBe(true)
+  })
+})
+
+describe('buildRuleFilter', () => {
+  it('matches the products of a rule by ID or by its filters', () => {
+    expect(buildRuleFilter(createRule({ product_ids: ['prod_1', 'prod_2'] }))).toBe('(id IN ["prod_1", "prod_2"])')
+    expect(buildRuleFilter(createRule({ filters: { collection_id: 'pcol_1', price: { lt: 10 } } }))).toBe(
+      '((collection_id = "pcol_1" AND price < 10))',
+    )
+    expect(buildRuleFilter(createRule({ product_ids: ['prod_1'], filters: { collection_id: 'pcol_1' } }))).toBe(
+      '(id IN ["prod_1"] OR (collection_id = "pcol_1"))',
+    )
+  })
+
+  it('returns undefined for rules without products or filters', () => {
+    expect(buildRuleFilter(createRule())).toBeUndefined()
+  })
+})
+
+describe('getPinnedPositions', () => {
+  it('places the pinned products in order from the position of their rule', () => {
+    const positions = getPinnedPositions([createRule({ product_ids: ['prod_1', 'prod_2'], position: 3 })])
+    expect([...positions]).toEqual([
+      [2, 'prod_1'],
+      [3, 'prod_2'],
+    ])
+  })
+
+  it('moves products pinned to a taken position to the next free one', () => {
+    const positions = getPinnedPositions([
+      createRule({ id: 'rule_2', product_ids: ['prod_2'], position: 1 }),
+      createRule({ id: 'rule_1', product_ids: ['prod_1'], position: 1 }),
+      createRule({ id: 'rule_3', product_ids: ['prod_3'], position: 2 }),
+    ])
+    expect([...positions]).toEqual([
+      [0, 'prod_2'],
+      [1, 'prod_1'],
+      [2, 'prod_3'],
+    ])
+  })
+
+  it('keeps the first position of products pinned by several rules and ignores other actions', () => {
+    const positions = getPinnedPositions([
+      createRule({ product_ids: ['prod_1'], position: 1 }),
+      createRule({ product_ids: ['prod_1'], position: 5 }),
+      createRule({ action: 'boost', product_ids: ['prod_2'], position: 2 }),
+    ])
+    expect([...positions]).toEqual([[0, 'prod_1']])
+  })
+})
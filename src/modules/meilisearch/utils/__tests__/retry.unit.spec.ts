@@ -0,0 +1,37 @@
+import { getMaxAttempts, getRetryDelay, withRetry } from '../retry'
+
+describe('getRetryDelay', () => {
+  it('doubles the delay for every retry up to the maximum delay', () => {
+    expect([1, 2, 3].map((retry) => getRetryDelay(retry))).toEqual([500, 1000, 2000])
+    expect(getRetryDelay(4, { initialDelayMs: 100, maxDelayMs: 500 })).toBe(500)
+  })
+})
+
+describe('getMaxAttempts', () => {
+  it('makes at least one attempt', () => {
+    expect(getMaxAttempts()).toBe(3)
+    expect(getMaxAttempts({ maxAttempts: 0 })).toBe(1)
+  })
+})
+
+describe('withRetry', () => {
+  it('retries until the function succeeds', async () => {
+    const fn = jest.fn().mockRejectedValueOnce(new Error('unavailable')).mockResolvedValueOnce('done')
+    const onRetry = jest.fn()
+
+    await expect(withRetry(fn, { initialDelayMs: 0 }, onRetry)).resolves.toBe('done')
+    expect(fn).toHaveBeenCalledTimes(2)
+    expect(onRetry).toHaveBeenCalledWith(new Error('unavailable'), 1)
+  })
+
+  it('throws the last error when all attempts failed', async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('first'))
+      .mockRejectedValueOnce(new Error('second'))
+      .mockRejectedValueOnce(new Error('third'))
+
+    await expect(withRetry(fn, { maxAttempts: 3, initialDelayMs: 0 })).rejects.toThrow('third')
+    expect(fn).toHaveBeenCalledTimes(3)
+  })
+})
@@ -0,0 +1,77 @@
+import { diffSettings, getReindexReasons } from '../settings'
+
+describe('diffSettings', () => {
+  it('returns no changes when the configured settings match', () => {
+    expect(
+      diffSettings(
+        { searchableAttributes: ['title', 'description'], rankingRules: ['words', 'typo'] },
+        { searchableAttributes: ['title', 'description'] },
+      ),
+    ).toEqual([])
+  })
+
+  it('ignores the order of unordered settings', () => {
+    expect(
+      diffSettings({ filterableAttributes: ['status', 'price'] }, { filterableAttributes: ['price', 'status'] }),
+    ).toEqual([])
+  })
+
+  it('compares the order of ordered settings', () => {
+    expect(
+      diffSettings(
+        { searchableAttributes: ['title', 'description'] },
+        { searchableAttributes: ['description', 'title'] },
+      ),
+    ).toEqual([{ setting: 'searchableAttributes', from: ['title', 'description'], to: ['description', 'title'] }])
+  })
+
+  it('only compares the configured fields of partial settings', () => {
+    expect(
+      diffSettings(
+        { typoTolerance: { enabled: true, minWordSizeForTypos: { oneTypo: 5, twoTypos: 9 } } },
+        { typoTolerance: { enabled: true } },
+      ),
+    ).toEqual([])
+    expect(diffSettings({ pagination: { maxTotalHits: 1000 } }, { pagination: { maxTotalHits: 5000 } })).toEqual([
+      { setting: 'pagination', from: { maxTotalHits: 1000 }, to: { maxTotalHits: 5000 } },
+    ])
+  })
+
+  it('treats a reset of an empty setting as unchanged', () => {
+    expect(diffSettings({ stopWords: [] }, { stopWords: null })).toEqual([])
+    expect(diffSettings({ stopWords: ['the'] }, { stopWords: null })).toEqual([
+      { setting: 'stopWords', from: ['the'], to: null },
+    ])
+  })
+})
+
+describe('getReindexReasons', () => {
+  it('requires a reindex for added filterable, sortable and searchable attributes', () => {
+    expect(
+      getReindexReasons([
+        { setting: 'filterableAttributes', from: ['status'], to: ['status', 'price'] },
+        { setting: 'sortableAttributes', from: [], to: ['created_at'] },
+      ]),
+    ).toEqual(['filterableAttributes added "price"', 'sortableAttributes added "created_at"'])
+  })
+
+  it('does not require a reindex for removed or stored attributes', () => {
+    expect(
+      getReindexReasons(
+        [
+          { setting: 'filterableAttributes', from: ['status', 'price'], to: ['status'] },
+          { setting: 'sortableAttributes', from: [], to: ['id'] },
+        ],
+        ['id'],
+      ),
+    ).toEqual([])
+  })
+
+  it('does not require a reindex when all attributes were searchable', () => {
+    expect(getReindexReasons([{ setting: 'searchableAttributes', from: ['*'], to: ['title'] }])).toEqual([])
+  })
+
+  it('ignores settings that do not depend on the stored documents', () => {
+    expect(getReindexReasons([{ setting: 'rankingRules', from: ['words'], to: ['typo', 'words'] }])).toEqual([])
+  })
+})
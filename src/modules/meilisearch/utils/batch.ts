@@ -0,0 +1,35 @@
+/**
+ * Split items into chunks of at most the given size
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += Math.max(size, 1)) {
+    chunks.push(items.slice(i, i + Math.max(size, 1)))
+  }
+
+  return chunks
+}
+
+/**
+ * Map items with an async function, running at most `concurrency` calls at the same time.
+ * The results keep the order of the items.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R> | R,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let nextIndex = 0
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, worker))
+
+  return results
+}
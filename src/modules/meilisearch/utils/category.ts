@@ -0,0 +1,65 @@
+import { ProductCategoryDTO } from '@medusajs/types'
+import { CategoryBreadcrumb } from '../types'
+
+type CategoryWithPath = Pick<ProductCategoryDTO, 'id'> & { mpath?: string }
+
+/**
+ * IDs of the ancestors of a category from the root down to its parent, read from its materialized path
+ */
+function getCategoryAncestorIds(category: CategoryWithPath): string[] {
+  return (category.mpath ?? '').split('.').filter((id) => id && id !== category.id)
+}
+
+/**
+ * Attach the ancestors of each category as `ancestors`, used to build the breadcrumb of the category
+ */
+export async function resolveCategoryAncestors<T extends CategoryWithPath>(
+  container: any,
+  categories: T[],
+): Promise<(T & { ancestors: CategoryBreadcrumb[] })[]> {
+  const ancestorIds = [...new Set(categories.flatMap(getCategoryAncestorIds))]
+  if (!ancestorIds.length) {
+    return categories.map((category) => ({ ...category, ancestors: [] }))
+  }
+
+  const queryService = container.resolve('query')
+  const { data: ancestors } = await queryService.graph({
+    entity: 'product_category',
+    fields: ['id', 'name', 'handle'],
+    filters: { id: ancestorIds },
+  })
+
+  const ancestorsById = new Map<string, CategoryBreadcrumb>(
+    ancestors.map((ancestor: CategoryBreadcrumb) => [
+      ancestor.id,
+      { id: ancestor.id, name: ancestor.name, handle: ancestor.handle },
+    ]),
+  )
+
+  return categories.map((category) => ({
+    ...category,
+    ancestors: getCategoryAncestorIds(category)
+      .map((id) => ancestorsById.get(id))
+      .filter((ancestor): ancestor is CategoryBreadcrumb => !!ancestor),
+  }))
+}
+
+/**
+ * IDs of all categories nested below the given categories, whose breadcrumbs include them
+ */
+export async function getCategoryDescendantIds(container: any, ids: string[]): Promise<string[]> {
+  if (!ids.length) {
+    return []
+  }
+
+  const queryService = container.resolve('query')
+  const { data: descendants } = await queryService.graph({
+    entity: 'product_category',
+    fields: ['id'],
+    filters: {
+      $or: ids.map((id) => ({ mpath: { $like: `%${id}.%` } })),
+    },
+  })
+
+  return descendants.map((descendant: { id: string }) => descendant.id).filter((id: string) => !ids.includes(id))
+}
@@ -0,0 +1,91 @@
+import { InventoryEvents, PricingEvents } from '@medusajs/utils'
+import { ProductEmbeddedEntity, ProductEmbeddedEntityTrigger } from '../types'
+
+/**
+ * Collect the values at a dot separated path, flattening the lists along the way
+ */
+function collectValues(value: any, path: string[]): unknown[] {
+  if (value === null || value === undefined) {
+    return []
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => collectValues(item, path))
+  }
+  if (!path.length) {
+    return [value]
+  }
+
+  const [key, ...rest] = path
+  return collectValues(value[key], rest)
+}
+
+/**
+ * Resolve product IDs by querying the products with a filter on the changed entities
+ */
+function byProductFilter(getFilters: (ids: string[]) => Record<string, unknown>) {
+  return async (container: any, ids: string[]) => {
+    const { data: products } = await container.resolve('query').graph({
+      entity: 'product',
+      fields: ['id'],
+      filters: getFilters(ids),
+    })
+    return products.map((product: { id: string }) => product.id)
+  }
+}
+
+/**
+ * Resolve product IDs by querying the changed entities with a path to their products
+ */
+function byEntityPath(entity: string, productIdPath: string) {
+  return async (container: any, ids: string[]) => {
+    const { data } = await container.resolve('query').graph({
+      entity,
+      fields: [productIdPath],
+      filters: { id: ids },
+    })
+    return collectValues(data, productIdPath.split('.')).filter((id): id is string => typeof id === 'string')
+  }
+}
+
+/**
+ * Events and product resolution of the built-in embedded entities.
+ * Deleted entities can no longer be resolved to products, so they rely on the product events instead.
+ */
+export const PRODUCT_EMBEDDED_ENTITIES: Record<ProductEmbeddedEntity, ProductEmbeddedEntityTrigger> = {
+  categories: {
+    events: ['product-category.updated'],
+    resolveProductIds: byProductFilter((ids) => ({ categories: { id: ids } })),
+  },
+  collections: {
+    events: ['product-collection.updated'],
+    resolveProductIds: byProductFilter((ids) => ({ collection_id: ids })),
+  },
+  types: {
+    events: ['product-type.updated'],
+    resolveProductIds: byProductFilter((ids) => ({ type_id: ids })),
+  },
+  tags: {
+    events: ['product-tag.updated'],
+    resolveProductIds: byProductFilter((ids) => ({ tags: { id: ids } })),
+  },
+  prices: {
+    events: [PricingEvents.PRICE_CREATED, PricingEvents.PRICE_UPDATED],
+    resolveProductIds: byEntityPath('price', 'price_set.variant.product_id'),
+  },
+  price_lists: {
+    events: [PricingEvents.PRICE_LIST_CREATED, PricingEvents.PRICE_LIST_UPDATED],
+    resolveProductIds: byEntityPath('price_list', 'prices.price_set.variant.product_id'),
+  },
+  inventory: {
+    events: [InventoryEvents.INVENTORY_LEVEL_CREATED, InventoryEvents.INVENTORY_LEVEL_UPDATED],
+    resolveProductIds: byEntityPath('inventory_level', 'inventory_item.variants.product_id'),
+  },
+}
+
+/**
+ * Extract entity IDs from an event payload, from `data.id` or `data.ids` by default
+ */
+export function getEventIds(data: any, getIds?: (data: any) => string | string[] | undefined | null): string[] {
+  const ids = getIds ? getIds(data) : (data?.id ?? data?.ids)
+  return (Array.isArray(ids) ? ids : [ids]).filter((id): id is string => typeof id === 'string' && !!id)
+}
@@ -0,0 +1,116 @@
+import { MedusaError } from '@medusajs/utils'
+import { FilterableAttributes, Filter } from 'meilisearch'
+import { SearchFilterRange, SearchFilters, SearchFilterValue } from '../types'
+
+const SORT_DIRECTIONS = ['asc', 'desc']
+
+// Attribute names are inserted into filter expressions as is, so they cannot contain operators, quotes or spaces
+const FILTER_ATTRIBUTE_PATTERN = /^[A-Za-z0-9_.]+$/
+
+/**
+ * Quote a value for use inside a Meilisearch filter expression
+ */
+export function escapeFilterValue(value: string | number | boolean): string {
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value)
+  }
+
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+/**
+ * Check whether an attribute name can safely be used in a filter expression (e.g. `variants.sku`)
+ */
+export function isValidFilterAttribute(attribute: string): boolean {
+  return FILTER_ATTRIBUTE_PATTERN.test(attribute)
+}
+
+function isFilterRange(value: SearchFilterValue): value is SearchFilterRange {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Translate structured filters into Meilisearch filter expressions.
+ * Every returned expression must match (they are combined with AND).
+ * Attribute names that are not valid filter attributes are rejected.
+ */
+export function buildFilterExpression(filters: SearchFilters): string[] {
+  return Object.entries(filters).flatMap(([attribute, value]) => {
+    if (value === undefined || value === null) {
+      return []
+    }
+
+    if (!isValidFilterAttribute(attribute)) {
+      throw new MedusaError(MedusaError.Types.INVALID_DATA, `Invalid filter attribute ${JSON.stringify(attribute)}`)
+    }
+
+    if (Array.isArray(value)) {
+      if (!value.length) {
+        return []
+      }
+      return [`${attribute} IN [${value.map(escapeFilterValue).join(', ')}]`]
+    }
+
+    if (isFilterRange(value)) {
+      const operators = { gt: '>', gte: '>=', lt: '<', lte: '<=' } as const
+      return Object.entries(operators)
+        .filter(([key]) => value[key] !== undefined)
+        .map(([key, operator]) => `${attribute} ${operator} ${escapeFilterValue(value[key])}`)
+    }
+
+    return [`${attribute} = ${escapeFilterValue(value)}`]
+  })
+}
+
+/**
+ * Combine a raw Meilisearch filter with additional expressions, all of which must match
+ */
+export function combineFilters(filter: Filter | undefined, expressions: string[]): Filter | undefined {
+  const combined = [...(filter === undefined ? [] : Array.isArray(filter) ? filter : [filter]), ...expressions]
+  return combined.length ? combined : undefined
+}
+
+function matchesAttributePattern(attribute: string, pattern: string): boolean {
+  if (pattern === '*' || pattern === attribute || attribute.startsWith(`${pattern}.`)) {
+    return true
+  }
+
+  if (pattern.includes('*')) {
+    const regex = new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`)
+    return regex.test(attribute)
+  }
+
+  return false
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Check whether an attribute is covered by the configured list of attributes.
+ * Nested attributes (e.g. `categories.id`) are covered by their parent (`categories`).
+ */
+export function isAttributeAllowed(attribute: string, allowed: FilterableAttributes | string[] | undefined): boolean {
+  return (allowed ?? []).some((entry) =>
+    typeof entry === 'string'
+      ? matchesAttributePattern(attribute, entry)
+      : entry.attributePatterns.some((pattern) => matchesAttributePattern(attribute, pattern)),
+  )
+}
+
+/**
+ * Split a sort rule (e.g. `price:asc`) into its attribute and direction
+ */
+export function parseSortRule(rule: string): { attribute: string; direction?: string } {
+  const separatorIndex = rule.lastIndexOf(':')
+  if (separatorIndex === -1) {
+    return { attribute: rule }
+  }
+
+  const direction = rule.slice(separatorIndex + 1)
+  return {
+    attribute: rule.slice(0, separatorIndex),
+    direction: SORT_DIRECTIONS.includes(direction) ? direction : undefined,
+  }
+}
@@ -0,0 +1,74 @@
+import { MerchandisingRuleDTO } from '../types'
+import { buildFilterExpression, escapeFilterValue } from './filter'
+
+export const DEFAULT_BOOST_WEIGHT = 2
+export const DEFAULT_BURY_WEIGHT = 0.5
+
+const normalizeQuery = (query: string) => query.trim().toLowerCase().replace(/\s+/g, ' ')
+
+/**
+ * Whether a merchandising or query rule applies to a search query at the given time
+ */
+export function isRuleApplicable(
+  rule: Pick<MerchandisingRuleDTO, 'enabled' | 'starts_at' | 'ends_at' | 'query' | 'match_type'>,
+  query: string,
+  now = new Date(),
+): boolean {
+  if (!rule.enabled) {
+    return false
+  }
+  if ((rule.starts_at && new Date(rule.starts_at) > now) || (rule.ends_at && new Date(rule.ends_at) < now)) {
+    return false
+  }
+
+  const ruleQuery = normalizeQuery(rule.query)
+  const searchQuery = normalizeQuery(query)
+  return rule.match_type === 'contains' ? searchQuery.includes(ruleQuery) : searchQuery === ruleQuery
+}
+
+/**
+ * Filter expression matching the documents with the given IDs, the values of the primary key
+ */
+export function buildIdsFilter(ids: string[], primaryKey = 'id'): string {
+  return `${primaryKey} IN [${ids.map(escapeFilterValue).join(', ')}]`
+}
+
+/**
+ * Filter expression matching the products a rule applies to, either by ID or by its filters
+ */
+export function buildRuleFilter(rule: MerchandisingRuleDTO, primaryKey = 'id'): string | undefined {
+  const filterExpressions = buildFilterExpression(rule.filters ?? {})
+  const expressions = [
+    ...(rule.product_ids?.length ? [buildIdsFilter(rule.product_ids, primaryKey)] : []),
+    ...(filterExpressions.length ? [`(${filterExpressions.join(' AND ')})`] : []),
+  ]
+  return expressions.length ? `(${expressions.join(' OR ')})` : undefined
+}
+
+/**
+ * Positions (starting at 0) of the pinned products. Products pinned to a taken position move to the next free one,
+ * products pinned by several rules keep their first position.
+ */
+export function getPinnedPositions(rules: MerchandisingRuleDTO[]): Map<number, string> {
+  const positions = new Map<number, string>()
+  const pinnedIds = new Set<string>()
+
+  rules
+    .filter((rule) => rule.action === 'pin')
+    .sort((a, b) => (a.position ?? 1) - (b.position ?? 1))
+    .forEach((rule) => {
+      let position = Math.max((rule.position ?? 1) - 1, 0)
+      ;(rule.product_ids ?? []).forEach((id) => {
+        if (pinnedIds.has(id)) {
+          return
+        }
+        while (positions.has(position)) {
+          position++
+        }
+        positions.set(position, id)
+        pinnedIds.add(id)
+      })
+    })
+
+  return positions
+}
@@ -0,0 +1,86 @@
+import { QueryContext } from '@medusajs/utils'
+import { PriceContext, ProductPrices, ProductPricingOptions } from '../types'
+
+/**
+ * Name used as a suffix for the flattened price fields of a context (e.g. `eur` for `min_price_eur`)
+ */
+export function getPriceContextName(context: PriceContext): string {
+  return (context.name ?? context.currency_code).toLowerCase()
+}
+
+/**
+ * Names of the flattened price fields added to product documents
+ */
+export function getPricingAttributes(pricing?: ProductPricingOptions): string[] {
+  return (pricing?.contexts ?? []).flatMap((context) => {
+    const name = getPriceContextName(context)
+    return [`min_price_${name}`, `max_price_${name}`]
+  })
+}
+
+/**
+ * Flatten resolved prices into document fields (e.g. `min_price_eur`, `max_price_eur`)
+ */
+export function flattenProductPrices(prices?: ProductPrices): Record<string, number> {
+  return Object.entries(prices ?? {}).reduce(
+    (acc, [name, { min, max }]) => ({
+      ...acc,
+      [`min_price_${name}`]: min,
+      [`max_price_${name}`]: max,
+    }),
+    {} as Record<string, number>,
+  )
+}
+
+/**
+ * Resolve the calculated variant prices of the given products for every configured price context
+ */
+export async function resolveProductPrices(
+  container: any,
+  productIds: string[],
+  pricing: ProductPricingOptions,
+): Promise<Record<string, ProductPrices>> {
+  const queryService = container.resolve('query')
+  const pricesByProduct: Record<string, ProductPrices> = {}
+
+  if (!productIds.length) {
+    return pricesByProduct
+  }
+
+  for (const context of pricing.contexts) {
+    const name = getPriceContextName(context)
+
+    const { data: products } = await queryService.graph({
+      entity: 'product',
+      fields: ['id', 'variants.id', 'variants.calculated_price.calculated_amount'],
+      filters: { id: productIds },
+      context: {
+        variants: {
+          calculated_price: QueryContext({
+            currency_code: context.currency_code,
+            ...(context.region_id ? { region_id: context.region_id } : {}),
+          }),
+        },
+      },
+    })
+
+    products.forEach((product: any) => {
+      const amounts = (product.variants ?? [])
+        .map((variant: any) => variant.calculated_price?.calculated_amount)
+        .filter((amount: unknown) => amount !== null && amount !== undefined)
+        .map(Number)
+
+      if (!amounts.length) {
+        return
+      }
+
+      pricesByProduct[product.id] ??= {}
+      pricesByProduct[product.id][name] = {
+        min: Math.min(...amounts),
+        max: Math.max(...amounts),
+      }
+    })
+  }
+
+  return pricesByProduct
+}
@@ -0,0 +1,64 @@
+export type DebouncedQueueOptions<K, V> = {
+  /**
+   * Milliseconds to collect entries after the first one is pushed, before they are flushed
+   */
+  windowMs: number
+  /**
+   * Number of entries after which the queue is flushed early
+   */
+  maxSize: number
+  onFlush: (entries: Map<K, V>) => Promise<void>
+  onError?: (error: unknown) => void
+}
+
+/**
+ * Collect entries over a time window and flush them at once.
+ * Entries pushed with the same key are coalesced, keeping the last value.
+ */
+export class DebouncedQueue<K, V> {
+  protected entries_ = new Map<K, V>()
+  protected timer_?: ReturnType<typeof setTimeout>
+  protected flushing_: Promise<void> = Promise.resolve()
+
+  constructor(protected readonly options_: DebouncedQueueOptions<K, V>) {}
+
+  get size() {
+    return this.entries_.size
+  }
+
+  push(key: K, value: V) {
+    this.entries_.set(key, value)
+
+    if (this.entries_.size >= this.options_.maxSize) {
+      void this.flush()
+      return
+    }
+
+    if (!this.timer_) {
+      this.timer_ = setTimeout(() => void this.flush(), this.options_.windowMs)
+      // Do not keep the process alive only for the queue, it is flushed on shutdown instead
+      this.timer_.unref?.()
+    }
+  }
+
+  /**
+   * Flush the queued entries, after any flush that is still running
+   */
+  flush(): Promise<void> {
+    clearTimeout(this.timer_)
+    this.timer_ = undefined
+
+    if (!this.entries_.size) {
+      return this.flushing_
+    }
+
+    const entries = this.entries_
+    this.entries_ = new Map()
+
+    this.flushing_ = this.flushing_
+      .then(() => this.options_.onFlush(entries))
+      .catch((error) => this.options_.onError?.(error))
+
+    return this.flushing_
+  }
+}
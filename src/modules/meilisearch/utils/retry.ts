@@ -0,0 +1,42 @@
+import { RetryOptions } from '../types'
+
+const DEFAULT_MAX_ATTEMPTS = 3
+const DEFAULT_INITIAL_DELAY_MS = 500
+const DEFAULT_MAX_DELAY_MS = 10000
+
+export function getMaxAttempts({ maxAttempts }: RetryOptions = {}) {
+  return Math.max(maxAttempts ?? DEFAULT_MAX_ATTEMPTS, 1)
+}
+
+/**
+ * Milliseconds to wait before the given retry (starting at 1), doubling the delay for every retry
+ */
+export function getRetryDelay(retry: number, { initialDelayMs, maxDelayMs }: RetryOptions = {}) {
+  const delay = (initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS) * 2 ** (retry - 1)
+  return Math.min(delay, maxDelayMs ?? DEFAULT_MAX_DELAY_MS)
+}
+
+/**
+ * Run a function until it succeeds, retrying it with exponential backoff.
+ * Throws the last error when all attempts failed.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = {},
+  onRetry?: (error: unknown, attempt: number) => void,
+): Promise<T> {
+  const maxAttempts = getMaxAttempts(options)
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn()
+    } catch (error) {
+      if (attempt >= maxAttempts) {
+        throw error
+      }
+
+      onRetry?.(error, attempt)
+      await new Promise((resolve) => setTimeout(resolve, getRetryDelay(attempt, options)))
+    }
+  }
+}
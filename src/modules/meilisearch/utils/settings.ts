@@ -0,0 +1,101 @@
+import { Settings } from 'meilisearch'
+import { SettingsChange } from '../types'
+
+/**
+ * Settings holding sets, in which the order of the entries has no meaning
+ */
+const UNORDERED_SETTINGS = [
+  'filterableAttributes',
+  'sortableAttributes',
+  'displayedAttributes',
+  'stopWords',
+  'separatorTokens',
+  'nonSeparatorTokens',
+  'dictionary',
+]
+
+/**
+ * Settings returned with defaults for omitted fields, only the configured fields are compared
+ */
+const PARTIAL_SETTINGS = ['typoTolerance', 'faceting', 'pagination']
+
+/**
+ * Settings of which new entries require the stored documents to be fetched again,
+ * as documents indexed before only contain the attributes that were configured at the time
+ */
+const REINDEX_SETTINGS = ['filterableAttributes', 'sortableAttributes', 'searchableAttributes']
+
+/**
+ * Serialize a value with sorted object keys, so equal values always serialize the same
+ */
+function serialize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(serialize).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${serialize(entry)}`).join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+function isEmpty(value: unknown) {
+  return (
+    value === null ||
+    value === undefined ||
+    (Array.isArray(value) && !value.length) ||
+    (typeof value === 'object' && !Object.keys(value).length)
+  )
+}
+
+function isSettingEqual(setting: string, live: unknown, desired: unknown): boolean {
+  // Resetting a setting only changes it when it is not empty already
+  if (desired === null) {
+    return isEmpty(live)
+  }
+
+  if (PARTIAL_SETTINGS.includes(setting) && desired && typeof desired === 'object' && !Array.isArray(desired)) {
+    const liveObject = (live ?? {}) as Record<string, unknown>
+    return Object.entries(desired).every(
+      ([key, value]) => value === undefined || isSettingEqual(key, liveObject[key], value),
+    )
+  }
+
+  if (UNORDERED_SETTINGS.includes(setting) && Array.isArray(desired) && Array.isArray(live)) {
+    return serialize(live.map(serialize).sort()) === serialize(desired.map(serialize).sort())
+  }
+
+  return serialize(live) === serialize(desired)
+}
+
+/**
+ * Compare the live settings of an index with the configured settings.
+ * Only settings that are configured are compared, omitted settings are left as they are.
+ */
+export function diffSettings(live: Settings, desired: Settings): SettingsChange[] {
+  const liveSettings = live as Record<string, unknown>
+  return Object.entries(desired)
+    .filter(([setting, value]) => value !== undefined && !isSettingEqual(setting, liveSettings[setting], value))
+    .map(([setting, value]) => ({ setting, from: liveSettings[setting], to: value }))
+}
+
+/**
+ * Reasons why the given settings changes require the documents of the index to be indexed again.
+ * Attributes held by every document (e.g. the primary key) never require it.
+ */
+export function getReindexReasons(changes: SettingsChange[], storedAttributes: string[] = []): string[] {
+  return changes
+    .filter(({ setting }) => REINDEX_SETTINGS.includes(setting))
+    .flatMap(({ setting, from, to }) => {
+      const previous = Array.isArray(from) ? from.map(serialize) : []
+      // All attributes are searchable by default
+      if (!Array.isArray(to) || previous.includes(serialize('*'))) {
+        return []
+      }
+
+      const added = to.filter((entry) => !previous.includes(serialize(entry)) && !storedAttributes.includes(entry))
+      return added.length ? [`${setting} added ${added.map((entry) => serialize(entry)).join(', ')}`] : []
+    })
+}
@@ -0,0 +1,30 @@
+import { EnqueuedTask, Task } from 'meilisearch'
+import { TaskOutcome } from '../types'
+
+export function toTaskOutcome(task: EnqueuedTask | Task): TaskOutcome {
+  const outcome: TaskOutcome = {
+    taskUid: 'uid' in task ? task.uid : task.taskUid,
+    indexUid: task.indexUid,
+    type: task.type,
+    status: task.status,
+  }
+
+  if ('error' in task && task.error) {
+    outcome.error = {
+      code: task.error.code,
+      type: task.error.type,
+      message: task.error.message,
+    }
+  }
+
+  return outcome
+}
+
+export function isTaskFailed(outcome: TaskOutcome): boolean {
+  return !!outcome.error || outcome.status === 'failed' || outcome.status === 'canceled'
+}
+
+export function formatTaskError(outcome: TaskOutcome): string {
+  const reason = outcome.error ? `[${outcome.error.code}] ${outcome.error.message}` : outcome.status
+  return `${outcome.type} task ${outcome.taskUid} on ${outcome.indexUid ?? 'unknown index'} failed: ${reason}`
+}
@@ -1,16 +1,21 @@
 import {
+  CategoryBreadcrumb,
   DefaultProductTransformer,
+  DefaultVariantTransformer,
   I18nConfig,
+  ProductPrices,
   TranslationMap,
   TranslationOptions,
   getTranslation,
   normalizeFieldConfig,
 } from '../types'
-import { ProductDTO } from '@medusajs/types'
+import { ProductCategoryDTO, ProductCollectionDTO, ProductDTO, ProductVariantDTO } from '@medusajs/types'
+import { flattenProductPrices } from './pricing'
 
 export interface TransformOptions extends TranslationOptions {
   i18n?: I18nConfig
   translations?: TranslationMap
+  prices?: ProductPrices
 }
 
 export const transformProduct: DefaultProductTransformer = (product: ProductDTO, options?: TransformOptions) => {
@@ -21,10 +26,18 @@ export const transformProduct: DefaultProductTransformer = (product: ProductDTO,
     includeAllTranslations,
     translatableFields: customTranslatableFields,
     translations = {},
+    prices,
   } = options || {}
 
+  const derivedFields: Record<string, unknown> = flattenProductPrices(prices)
+
+  const salesChannels = (product as ProductDTO & { sales_channels?: { id: string }[] }).sales_channels
+  if (Array.isArray(salesChannels)) {
+    derivedFields.sales_channel_ids = salesChannels.map((salesChannel) => salesChannel.id)
+  }
+
   if (!i18n) {
-    return { ...product } as Record<string, unknown>
+    return { ...product, ...derivedFields } as Record<string, unknown>
   }
 
   const defaultLang = i18n.defaultLanguage
@@ -34,7 +47,7 @@ export const transformProduct: DefaultProductTransformer = (product: ProductDTO,
   let translatableFields = (customTranslatableFields || i18n.translatableFields || []).map(normalizeFieldConfig)
 
   if (i18n.strategy === 'field-suffix') {
-    const result: Record<string, unknown> = { ...product }
+    const result: Record<string, unknown> = { ...product, ...derivedFields }
 
     // If no fields specified and using field-suffix strategy,
     // auto-detect string fields as translatable
@@ -75,7 +88,7 @@ export const transformProduct: DefaultProductTransformer = (product: ProductDTO,
   }
 
   // For separate-index strategy, return the product with translations for current language
-  const result: Record<string, unknown> = { ...product }
+  const result: Record<string, unknown> = { ...product, ...derivedFields }
 
   translatableFields.forEach((fieldConfig) => {
     const sourceField = fieldConfig.source
@@ -91,3 +104,114 @@ export const transformProduct: DefaultProductTransformer = (product: ProductDTO,
 
   return result
 }
+
+type VariantInventoryItem = {
+  required_quantity?: number
+  inventory?: {
+    location_levels?: { stocked_quantity?: number; reserved_quantity?: number }[]
+  }
+}
+
+/**
+ * Number of variant units that can be sold from the stock of its inventory items,
+ * or `null` when the inventory is not managed
+ */
+function getVariantInventoryQuantity(variant: ProductVariantDTO & { inventory_items?: VariantInventoryItem[] }) {
+  if (!variant.manage_inventory || !Array.isArray(variant.inventory_items)) {
+    return null
+  }
+
+  const quantities = variant.inventory_items.map(({ required_quantity, inventory }) => {
+    const available = (inventory?.location_levels ?? []).reduce(
+      (total, level) => total + (level.stocked_quantity ?? 0) - (level.reserved_quantity ?? 0),
+      0,
+    )
+    return Math.max(0, Math.floor(available / (required_quantity || 1)))
+  })
+
+  return quantities.length ? Math.min(...quantities) : 0
+}
+
+export const transformVariant: DefaultVariantTransformer = (variant: ProductVariantDTO) => {
+  const {
+    product,
+    options: optionValues,
+    inventory_items,
+    ...fields
+  } = variant as ProductVariantDTO & {
+    inventory_items?: VariantInventoryItem[]
+  }
+
+  const result: Record<string, unknown> = { ...fields, product_id: variant.product_id ?? product?.id }
+
+  // Flatten the parent product fields into the variant (e.g. `product_title`, `product_handle`)
+  Object.entries(product ?? {})
+    .filter(([key]) => !['id', 'variants', 'sales_channels'].includes(key))
+    .forEach(([key, value]) => {
+      result[`product_${key}`] = value
+    })
+
+  const salesChannels = (product as (ProductDTO & { sales_channels?: { id: string }[] }) | undefined)?.sales_channels
+  if (Array.isArray(salesChannels)) {
+    result.sales_channel_ids = salesChannels.map((salesChannel) => salesChannel.id)
+  }
+
+  // Option values keyed by option title (e.g. `options.Size = M`)
+  if (Array.isArray(optionValues)) {
+    result.options = Object.fromEntries(
+      optionValues
+        .filter((optionValue) => optionValue.option?.title)
+        .map((optionValue) => [optionValue.option!.title, optionValue.value]),
+    )
+    result.option_values = optionValues.map((optionValue) => optionValue.value)
+  }
+
+  if (inventory_items) {
+    const inventoryQuantity = getVariantInventoryQuantity(variant)
+    result.inventory_quantity = inventoryQuantity
+    result.in_stock = inventoryQuantity === null || inventoryQuantity > 0 || !!variant.allow_backorder
+  }
+
+  return result
+}
+
+/**
+ * Number of published products, when the products are fetched
+ */
+function getProductCount(products?: Pick<ProductDTO, 'status'>[]) {
+  return Array.isArray(products)
+    ? { product_count: products.filter((product) => !product.status || product.status === 'published').length }
+    : {}
+}
+
+export const transformCategory = (
+  category: ProductCategoryDTO & { ancestors?: CategoryBreadcrumb[]; mpath?: string },
+) => {
+  const { products, parent_category, ancestors = [], ...rest } = category
+  // Nested categories and the materialized path are replaced by the breadcrumbs
+  const fields = Object.fromEntries(
+    Object.entries(rest).filter(([key]) => !['category_children', 'mpath'].includes(key)),
+  )
+  const breadcrumbs = [...ancestors, { id: category.id, name: category.name, handle: category.handle }]
+
+  return {
+    ...fields,
+    parent_category_id: category.parent_category_id ?? parent_category?.id ?? null,
+    depth: ancestors.length,
+    breadcrumbs,
+    // Breadcrumb path from the root category (e.g. `Clothing > Shirts`)
+    path: breadcrumbs.map((breadcrumb) => breadcrumb.name).join(' > '),
+    path_ids: breadcrumbs.map((breadcrumb) => breadcrumb.id),
+    handle_path: breadcrumbs.map((breadcrumb) => breadcrumb.handle).join('/'),
+    ...getProductCount(products),
+  } as Record<string, unknown>
+}
+
+export const transformCollection = (collection: ProductCollectionDTO) => {
+  const { products, ...fields } = collection
+
+  return {
+    ...fields,
+    ...getProductCount(products),
+  } as Record<string, unknown>
+}
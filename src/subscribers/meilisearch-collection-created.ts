@@ -0,0 +1,17 @@
+import { SubscriberArgs, SubscriberConfig } from '@medusajs/framework'
+import collectionCreatedWorkflow from '../workflows/collection-created'
+
+export default async function meilisearchCollectionCreatedHandler({
+  event: { data },
+  container,
+}: SubscriberArgs<{ id: string }>) {
+  await collectionCreatedWorkflow(container).run({
+    input: {
+      id: data.id,
+    },
+  })
+}
+
+export const config: SubscriberConfig = {
+  event: 'product-collection.created',
+}
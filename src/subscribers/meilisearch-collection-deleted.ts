@@ -0,0 +1,17 @@
+import { SubscriberArgs, SubscriberConfig } from '@medusajs/framework'
+import collectionDeletedWorkflow from '../workflows/collection-deleted'
+
+export default async function meilisearchCollectionDeletedHandler({
+  event: { data },
+  container,
+}: SubscriberArgs<{ id: string }>) {
+  await collectionDeletedWorkflow(container).run({
+    input: {
+      id: data.id,
+    },
+  })
+}
+
+export const config: SubscriberConfig = {
+  event: 'product-collection.deleted',
+}
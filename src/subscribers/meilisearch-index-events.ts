@@ -0,0 +1,26 @@
+import { container as medusaContainer, SubscriberArgs, SubscriberConfig } from '@medusajs/framework'
+import { MEILISEARCH_MODULE, MeiliSearchService } from '../modules/meilisearch'
+import syncIndexEventWorkflow from '../workflows/sync-index-event'
+
+export default async function meilisearchIndexEventsHandler({
+  event: { name, data },
+  container,
+}: SubscriberArgs<Record<string, unknown>>) {
+  const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+
+  for (const input of meilisearchService.resolveIndexEvent(name, data)) {
+    await syncIndexEventWorkflow(container).run({
+      input,
+    })
+  }
+}
+
+export const config: SubscriberConfig = {
+  // The events are configured per index in the plugin options, which are available once the modules are loaded
+  get event() {
+    const meilisearchService = medusaContainer.resolve<MeiliSearchService>(MEILISEARCH_MODULE, {
+      allowUnregistered: true,
+    })
+    return meilisearchService?.getIndexEventNames() ?? []
+  },
+}
@@ -1,15 +1,11 @@
 import { SubscriberArgs, SubscriberConfig } from '@medusajs/framework'
-import productCreatedWorkflow from '../workflows/product-created'
+import { enqueueProductChange } from '../utils/product-queue'
 
 export default async function meilisearchProductCreatedHandler({
   event: { data },
   container,
 }: SubscriberArgs<{ id: string }>) {
-  await productCreatedWorkflow(container).run({
-    input: {
-      id: data.id,
-    },
-  })
+  enqueueProductChange(container, data.id, 'upsert')
 }
 
 export const config: SubscriberConfig = {
@@ -1,15 +1,11 @@
 import { SubscriberArgs, SubscriberConfig } from '@medusajs/framework'
-import productDeletedWorkflow from '../workflows/product-deleted'
+import { enqueueProductChange } from '../utils/product-queue'
 
 export default async function meilisearchProductDeletedHandler({
   event: { data },
   container,
 }: SubscriberArgs<{ id: string }>) {
-  await productDeletedWorkflow(container).run({
-    input: {
-      id: data.id,
-    },
-  })
+  enqueueProductChange(container, data.id, 'delete')
 }
 
 export const config: SubscriberConfig = {
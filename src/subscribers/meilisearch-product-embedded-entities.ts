@@ -0,0 +1,31 @@
+import { container as medusaContainer, SubscriberArgs, SubscriberConfig } from '@medusajs/framework'
+import { MEILISEARCH_MODULE, MeiliSearchService } from '../modules/meilisearch'
+import reindexEmbeddingProductsWorkflow from '../workflows/reindex-embedding-products'
+
+export default async function meilisearchProductEmbeddedEntitiesHandler({
+  event: { name, data },
+  container,
+}: SubscriberArgs<Record<string, unknown>>) {
+  const logger = container.resolve('logger')
+
+  const {
+    result: { productIds },
+  } = await reindexEmbeddingProductsWorkflow(container).run({
+    input: {
+      eventName: name,
+      data,
+    },
+  })
+
+  logger.info(`Reindexed ${productIds.length} products affected by ${name}`)
+}
+
+export const config: SubscriberConfig = {
+  // The embedded entities are configured per product index, which are available once the modules are loaded
+  get event() {
+    const meilisearchService = medusaContainer.resolve<MeiliSearchService>(MEILISEARCH_MODULE, {
+      allowUnregistered: true,
+    })
+    return meilisearchService?.getProductEmbeddedEntityEventNames() ?? []
+  },
+}
@@ -1,15 +1,11 @@
 import { SubscriberArgs, SubscriberConfig } from '@medusajs/framework'
-import productUpdatedWorkflow from '../workflows/product-updated'
+import { enqueueProductChange } from '../utils/product-queue'
 
 export default async function meilisearchProductUpdatedHandler({
   event: { data },
   container,
 }: SubscriberArgs<{ id: string }>) {
-  await productUpdatedWorkflow(container).run({
-    input: {
-      id: data.id,
-    },
-  })
+  enqueueProductChange(container, data.id, 'upsert')
 }
 
 export const config: SubscriberConfig = {
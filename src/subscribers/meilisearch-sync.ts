@@ -1,18 +1,39 @@
 import { SubscriberArgs, type SubscriberConfig } from '@medusajs/framework'
-import { syncProductsWorkflow } from '../workflows/sync-products'
+import { MEILISEARCH_MODULE, MeiliSearchService } from '../modules/meilisearch'
+import { syncIndexesWorkflow } from '../workflows/sync-indexes'
 
-export default async function meilisearchSyncHandler({ container }: SubscriberArgs) {
+export default async function meilisearchSyncHandler({ event: { data }, container }: SubscriberArgs<{ id?: string }>) {
   const logger = container.resolve('logger')
+  const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
 
-  logger.info('Starting product indexing...')
+  // Without a sync run, every index is synced in full
+  const run = data?.id
+    ? await meilisearchService.retrieveSyncRun(data.id)
+    : await meilisearchService.createSyncRun({ mode: 'full' })
+  const indexKeys = run.index_keys ?? Object.keys(meilisearchService['config_'].settings ?? {})
 
-  const {
-    result: { products },
-  } = await syncProductsWorkflow(container).run({
-    input: {},
-  })
+  logger.info(`Starting ${run.mode} Meilisearch sync ${run.id} of ${indexKeys.join(', ')}...`)
 
-  logger.info(`Successfully indexed ${products.length} products`)
+  try {
+    const {
+      result: { run: finishedRun },
+    } = await syncIndexesWorkflow(container).run({
+      input: {
+        runId: run.id,
+        mode: run.mode,
+        indexKeys,
+        language: run.language ?? undefined,
+      },
+    })
+
+    logger.info(
+      `Meilisearch sync ${run.id} ${finishedRun.status}: ${finishedRun.documents_added} documents added, ` +
+        `${finishedRun.documents_deleted} deleted`,
+    )
+  } catch (error) {
+    logger.error(`Meilisearch sync ${run.id} failed: ${error}`)
+    await meilisearchService.finishSyncRun(run.id, error instanceof Error ? error.message : String(error))
+  }
 }
 
 export const config: SubscriberConfig = {
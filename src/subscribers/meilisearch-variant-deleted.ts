@@ -0,0 +1,17 @@
+import { SubscriberArgs, SubscriberConfig } from '@medusajs/framework'
+import variantDeletedWorkflow from '../workflows/variant-deleted'
+
+export default async function meilisearchVariantDeletedHandler({
+  event: { data },
+  container,
+}: SubscriberArgs<{ id: string }>) {
+  await variantDeletedWorkflow(container).run({
+    input: {
+      id: data.id,
+    },
+  })
+}
+
+export const config: SubscriberConfig = {
+  event: 'product-variant.deleted',
+}
@@ -0,0 +1,27 @@
+import { MedusaContainer } from '@medusajs/framework'
+import { MEILISEARCH_MODULE, MeiliSearchService, ProductQueueAction } from '../modules/meilisearch'
+import syncProductChangesWorkflow from '../workflows/sync-product-changes'
+
+/**
+ * Queue a product change. Changes are coalesced over the configured window, and synced with one batched fetch
+ * and one batched write per index.
+ */
+export function enqueueProductChange(container: MedusaContainer, id: string, action: ProductQueueAction) {
+  const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+
+  meilisearchService
+    .getProductQueue(async (changes) => {
+      const logger = container.resolve('logger')
+      const entries = Array.from(changes.entries())
+
+      await syncProductChangesWorkflow(container).run({
+        input: {
+          upsertIds: entries.filter(([, change]) => change === 'upsert').map(([productId]) => productId),
+          deleteIds: entries.filter(([, change]) => change === 'delete').map(([productId]) => productId),
+        },
+      })
+
+      logger.info(`Synced ${entries.length} queued product changes to Meilisearch`)
+    })
+    .push(id, action)
+}
@@ -1,7 +1,9 @@
-import { createWorkflow, WorkflowResponse } from '@medusajs/workflows-sdk'
+import { createWorkflow, transform, when, WorkflowResponse } from '@medusajs/workflows-sdk'
 import { getIndexesWithFetchersStep } from './steps/get-indexes-with-fetchers'
 import { filterIndexesStep } from './steps/filter-indexes'
 import { bulkSyncDocumentsStep, BulkSyncDocumentsStepResult } from './steps/bulk-sync-documents'
+import { purgeOrphanedDocumentsStep, PurgeOrphanedDocumentsStepResult } from './steps/purge-orphaned-documents'
+import { syncChangedDocumentsStep } from './steps/sync-changed-documents'
 
 export type BulkSyncDocumentsWorkflowInput = {
   filters?: Record<string, unknown>
@@ -9,13 +11,17 @@ export type BulkSyncDocumentsWorkflowInput = {
   offset?: number
   language?: string
   indexKeys?: string[] // Optional: specific indexes to process
+  incremental?: boolean // Optional: only sync documents updated since the last successful sync of each index
+  purgeOrphans?: boolean // Optional: delete documents that are no longer returned by the fetchers
 }
 
-export type BulkSyncDocumentsWorkflowResult = BulkSyncDocumentsStepResult
+export type BulkSyncDocumentsWorkflowResult = BulkSyncDocumentsStepResult & {
+  purgeResult?: PurgeOrphanedDocumentsStepResult
+}
 
 export const bulkSyncDocumentsWorkflow = createWorkflow(
   'bulk-sync-documents',
-  ({ filters, limit, offset, language, indexKeys }: BulkSyncDocumentsWorkflowInput) => {
+  ({ filters, limit, offset, language, indexKeys, incremental, purgeOrphans }: BulkSyncDocumentsWorkflowInput) => {
     // Get all indexes that have fetcher functions
     const { indexes } = getIndexesWithFetchersStep({ language })
 
@@ -26,13 +32,33 @@ export const bulkSyncDocumentsWorkflow = createWorkflow(
     })
 
     // Bulk sync all discovered indexes
-    const result = bulkSyncDocumentsStep({
-      indexes: filteredIndexes,
-      filters,
-      limit,
-      offset,
+    const fullResult = when({ incremental }, (data) => !data.incremental).then(() => {
+      return bulkSyncDocumentsStep({
+        indexes: filteredIndexes,
+        filters,
+        limit,
+        offset,
+      })
+    })
+
+    // Or only the documents changed since the last checkpoint of each index
+    const incrementalResult = when({ incremental }, (data) => !!data.incremental).then(() => {
+      return syncChangedDocumentsStep({
+        indexes: filteredIndexes,
+        filters,
+      })
     })
 
-    return new WorkflowResponse<BulkSyncDocumentsWorkflowResult>(result)
+    // Purge orphaned documents across the whole indexes if requested
+    const purgeResult = when({ purgeOrphans }, (data) => !!data.purgeOrphans).then(() => {
+      return purgeOrphanedDocumentsStep({ indexes: filteredIndexes })
+    })
+
+    const response = transform({ fullResult, incrementalResult, purgeResult }, (data) => ({
+      ...(data.incrementalResult ?? data.fullResult)!,
+      purgeResult: data.purgeResult,
+    }))
+
+    return new WorkflowResponse<BulkSyncDocumentsWorkflowResult>(response)
   },
 )
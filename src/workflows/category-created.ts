@@ -0,0 +1,18 @@
+import { createWorkflow, transform, WorkflowResponse } from '@medusajs/workflows-sdk'
+import { meilisearchIndexTypes } from '../modules/meilisearch'
+import { upsertDocumentsStep } from './steps/upsert-documents'
+
+type WorkflowInput = {
+  id: string
+}
+
+const categoryCreatedWorkflow = createWorkflow('category-created', ({ id }: WorkflowInput) => {
+  const ids = transform({ id }, (data) => [data.id])
+  const { documents } = upsertDocumentsStep({ type: meilisearchIndexTypes.CATEGORIES, ids })
+
+  return new WorkflowResponse({
+    documents,
+  })
+})
+
+export default categoryCreatedWorkflow
@@ -0,0 +1,21 @@
+import { createWorkflow, transform, WorkflowResponse } from '@medusajs/workflows-sdk'
+import { meilisearchIndexTypes } from '../modules/meilisearch'
+import { getCategoryDescendantsStep } from './steps/get-category-descendants'
+import { upsertDocumentsStep } from './steps/upsert-documents'
+
+type WorkflowInput = {
+  id: string
+}
+
+const categoryUpdatedWorkflow = createWorkflow('category-updated', ({ id }: WorkflowInput) => {
+  // Renaming or moving a category changes the breadcrumbs of its descendants as well
+  const categoryIds = transform({ id }, (data) => [data.id])
+  const { ids } = getCategoryDescendantsStep({ ids: categoryIds })
+  const { documents } = upsertDocumentsStep({ type: meilisearchIndexTypes.CATEGORIES, ids })
+
+  return new WorkflowResponse({
+    documents,
+  })
+})
+
+export default categoryUpdatedWorkflow
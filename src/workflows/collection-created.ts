@@ -0,0 +1,18 @@
+import { createWorkflow, transform, WorkflowResponse } from '@medusajs/workflows-sdk'
+import { meilisearchIndexTypes } from '../modules/meilisearch'
+import { upsertDocumentsStep } from './steps/upsert-documents'
+
+type WorkflowInput = {
+  id: string
+}
+
+const collectionCreatedWorkflow = createWorkflow('collection-created', ({ id }: WorkflowInput) => {
+  const ids = transform({ id }, (data) => [data.id])
+  const { documents } = upsertDocumentsStep({ type: meilisearchIndexTypes.COLLECTIONS, ids })
+
+  return new WorkflowResponse({
+    documents,
+  })
+})
+
+export default collectionCreatedWorkflow
@@ -0,0 +1,16 @@
+import { createWorkflow, transform, WorkflowResponse } from '@medusajs/workflows-sdk'
+import { meilisearchIndexTypes } from '../modules/meilisearch'
+import { deleteDocumentsStep } from './steps/delete-documents'
+
+type WorkflowInput = {
+  id: string
+}
+
+const collectionDeletedWorkflow = createWorkflow('collection-deleted', ({ id }: WorkflowInput) => {
+  const ids = transform({ id }, (data) => [data.id])
+  deleteDocumentsStep({ type: meilisearchIndexTypes.COLLECTIONS, ids })
+
+  return new WorkflowResponse({})
+})
+
+export default collectionDeletedWorkflow
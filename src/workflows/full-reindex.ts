@@ -0,0 +1,38 @@
+import { createWorkflow, WorkflowResponse } from '@medusajs/workflows-sdk'
+import { createTemporaryIndexStep } from './steps/create-temporary-index'
+import { populateIndexStep } from './steps/populate-index'
+import { swapIndexesStep } from './steps/swap-indexes'
+import { deleteIndexStep } from './steps/delete-index'
+import { recordIndexSyncStep } from './steps/record-index-sync'
+
+export type FullReindexWorkflowInput = {
+  indexKey: string
+  language?: string
+  batchSize?: number
+}
+
+/**
+ * Rebuild an index from scratch in a temporary index and atomically swap it with the live index.
+ * Searches keep using the previous documents until the swap, and a failure leaves the live index untouched.
+ */
+export const fullReindexWorkflow = createWorkflow(
+  'full-reindex',
+  ({ indexKey, language, batchSize }: FullReindexWorkflowInput) => {
+    const { indexUid, temporaryIndexUid } = createTemporaryIndexStep({ indexKey, language })
+
+    const { documentCount } = populateIndexStep({ indexKey, indexUid: temporaryIndexUid, language, batchSize })
+
+    swapIndexesStep({ indexUid, temporaryIndexUid })
+
+    recordIndexSyncStep({ indexKey, language, documentCount })
+
+    // After the swap, the temporary index holds the previous documents. It is deleted last,
+    // so the swap can still be reverted when a previous step fails.
+    deleteIndexStep({ indexUid: temporaryIndexUid })
+
+    return new WorkflowResponse({
+      indexUid,
+      documentCount,
+    })
+  },
+)
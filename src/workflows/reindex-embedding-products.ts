@@ -0,0 +1,25 @@
+import { createWorkflow, transform, WorkflowResponse } from '@medusajs/workflows-sdk'
+import { resolveEmbeddingProductsStep } from './steps/resolve-embedding-products'
+import { upsertDocumentsStep } from './steps/upsert-documents'
+
+type WorkflowInput = {
+  eventName: string
+  data: Record<string, unknown>
+}
+
+const reindexEmbeddingProductsWorkflow = createWorkflow(
+  'reindex-embedding-products',
+  ({ eventName, data }: WorkflowInput) => {
+    const { indexKeys, ids } = resolveEmbeddingProductsStep({ eventName, data })
+
+    // Reindex only the affected products, in batches of the index batch size
+    const { documents } = upsertDocumentsStep({ indexKeys, ids })
+    const productIds = transform({ documents }, (data) => data.documents.map((product) => product.id))
+
+    return new WorkflowResponse({
+      productIds,
+    })
+  },
+)
+
+export default reindexEmbeddingProductsWorkflow
@@ -0,0 +1,53 @@
+import { createMedusaContainer } from '@medusajs/utils'
+import { createWorkflow, WorkflowResponse } from '@medusajs/workflows-sdk'
+import { asValue } from 'awilix'
+import { MEILISEARCH_MODULE, MeiliSearchService } from '../../../modules/meilisearch'
+import { purgeOrphanedDocumentsStep, PurgeOrphanedDocumentsStepInput } from '../purge-orphaned-documents'
+
+const purgeWorkflow = createWorkflow('test-purge-orphaned-documents', (input: PurgeOrphanedDocumentsStepInput) => {
+  return new WorkflowResponse(purgeOrphanedDocumentsStep(input))
+})
+
+describe('purgeOrphanedDocumentsStep', () => {
+  it('compares the documents by the primary key of the index', async () => {
+    // The source has `shirt`, the index has `shirt` and `pants`, `hat` is created while the purge runs
+    let source = [{ id: 'prod_1', handle: 'shirt' }]
+    const fetcher = jest.fn(async (_container: any, { filters, offset }: any) => {
+      if (offset) {
+        return []
+      }
+      const documents = source
+      source = [...source, { id: 'prod_3', handle: 'hat' }]
+      return filters?.handle ? documents.filter((doc) => filters.handle.includes(doc.handle)) : documents
+    })
+
+    const meilisearchService = new MeiliSearchService(
+      { logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } },
+      {
+        config: { host: 'http://localhost:7700', apiKey: 'masterKey' },
+        settings: { products: { type: 'products', primaryKey: 'handle', indexSettings: {}, fetcher } },
+      },
+    )
+    jest.spyOn(meilisearchService, 'iterateDocumentIds').mockImplementation(async function* () {
+      yield ['shirt', 'pants', 'hat']
+    })
+    const deleteDocuments = jest
+      .spyOn(meilisearchService, 'deleteDocuments')
+      .mockResolvedValue({ taskUid: 1, indexUid: 'products', status: 'enqueued', type: 'documentDeletion' } as any)
+
+    const container = createMedusaContainer()
+    container.register({
+      logger: asValue({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+      [MEILISEARCH_MODULE]: asValue(meilisearchService),
+    })
+
+    const { result } = await purgeWorkflow(container).run({
+      input: { indexes: [{ indexKey: 'products' }] },
+    })
+
+    expect(deleteDocuments).toHaveBeenCalledWith('products', ['pants'], undefined)
+    expect(result.totalDeleted).toBe(1)
+    // The candidates are fetched again by their primary key before deleting them
+    expect(fetcher.mock.lastCall?.[1]).toMatchObject({ filters: { handle: ['pants', 'hat'] } })
+  })
+})
@@ -0,0 +1,62 @@
+import { createMedusaContainer } from '@medusajs/utils'
+import { createWorkflow, WorkflowResponse } from '@medusajs/workflows-sdk'
+import { asValue } from 'awilix'
+import { MEILISEARCH_MODULE, MeiliSearchService } from '../../../modules/meilisearch'
+import { syncChangedDocumentsStep, SyncChangedDocumentsStepInput } from '../sync-changed-documents'
+
+const syncWorkflow = createWorkflow('test-sync-changed-documents', (input: SyncChangedDocumentsStepInput) => {
+  return new WorkflowResponse(syncChangedDocumentsStep(input))
+})
+
+describe('syncChangedDocumentsStep', () => {
+  it('removes the changed records that the fetcher no longer returns', async () => {
+    const lastUpdatedAt = new Date('2026-10-01T00:00:00Z')
+    const graph = jest.fn(async ({ filters, pagination }: any) => {
+      if (pagination.skip) {
+        return { data: [] }
+      }
+      // `prod_2` was unpublished and `prod_3` deleted since the checkpoint
+      if (filters.$or) {
+        return { data: [{ id: 'prod_1' }, { id: 'prod_2' }, { id: 'prod_3' }] }
+      }
+      return { data: [{ id: 'prod_1', title: 'Shirt' }] }
+    })
+
+    const meilisearchService = new MeiliSearchService(
+      { logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } },
+      {
+        config: { host: 'http://localhost:7700', apiKey: 'masterKey' },
+        settings: { products: { type: 'products', indexSettings: {} } },
+      },
+    )
+    const succeeded = { taskUid: 1, indexUid: 'products', type: 'documentAdditionOrUpdate', status: 'succeeded' }
+    jest.spyOn(meilisearchService, 'getCheckpoint').mockResolvedValue({ last_updated_at: lastUpdatedAt } as any)
+    jest.spyOn(meilisearchService, 'saveCheckpoint').mockResolvedValue(undefined as any)
+    jest.spyOn(meilisearchService, 'recordSync').mockResolvedValue(undefined as any)
+    jest.spyOn(meilisearchService, 'addDocumentsToIndex').mockResolvedValue([])
+    jest.spyOn(meilisearchService, 'resolveTasks').mockResolvedValue([succeeded as any])
+    const deleteDocuments = jest.spyOn(meilisearchService, 'deleteDocuments').mockResolvedValue({} as any)
+
+    const container = createMedusaContainer()
+    container.register({
+      logger: asValue({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+      query: asValue({ graph }),
+      [MEILISEARCH_MODULE]: asValue(meilisearchService),
+    })
+
+    const { result } = await syncWorkflow(container).run({
+      input: { indexes: [{ indexKey: 'products' }] },
+    })
+
+    expect(deleteDocuments).toHaveBeenCalledWith('products', ['prod_2', 'prod_3'], undefined)
+    expect(result.results[0]).toMatchObject({ success: true, added: 1, deleted: 2 })
+    expect(graph).toHaveBeenCalledWith(
+      expect.objectContaining({
+        entity: 'product',
+        fields: ['id'],
+        filters: { $or: [{ updated_at: { $gt: lastUpdatedAt } }, { deleted_at: { $gt: lastUpdatedAt } }] },
+        withDeleted: true,
+      }),
+    )
+  })
+})
@@ -1,6 +1,8 @@
 import { createStep, StepResponse } from '@medusajs/workflows-sdk'
-import { MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
+import { IndexSnapshot, MEILISEARCH_MODULE, MeiliSearchService, TaskOutcome } from '../../modules/meilisearch'
+import { formatTaskError, isTaskFailed } from '../../modules/meilisearch/utils/task'
 import { IndexWithFetcher } from './get-indexes-with-fetchers'
+import { buildIdsFilter } from '../../modules/meilisearch/utils/merchandising'
 
 export type BulkSyncDocumentsStepInput = {
   indexes: IndexWithFetcher[]
@@ -17,6 +19,7 @@ export type IndexSyncResult = {
   added: number
   deleted: number
   error?: string
+  tasks?: TaskOutcome[]
   processingTime: number
 }
 
@@ -31,6 +34,27 @@ export type BulkSyncDocumentsStepResult = {
   processingTime: number
 }
 
+/**
+ * Store the result of every synced index, shown as the last sync on the admin dashboard.
+ * Failing to store the results does not fail the sync.
+ */
+export async function recordSyncResults(
+  container: any,
+  results: Pick<IndexSyncResult, 'indexKey' | 'language' | 'success' | 'added' | 'error'>[],
+) {
+  const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+
+  await Promise.all(
+    results.map(({ indexKey, language, success, added, error }) =>
+      meilisearchService
+        .recordSync(indexKey, language, { status: success ? 'succeeded' : 'failed', document_count: added, error })
+        .catch((recordError) =>
+          container.resolve('logger').warn(`Failed to record the sync of index ${indexKey}: ${recordError}`),
+        ),
+    ),
+  )
+}
+
 export const bulkSyncDocumentsStep = createStep(
   'bulk-sync-documents',
   async ({ indexes, filters, limit, offset }: BulkSyncDocumentsStepInput, { container }) => {
@@ -40,6 +64,9 @@ export const bulkSyncDocumentsStep = createStep(
 
     logger.info(`Starting bulk sync for ${indexes.length} indexes`)
 
+    // Stored documents of every index before the sync, to restore them when the workflow is rolled back
+    const snapshots: IndexSnapshot[] = []
+
     // Process all indexes in parallel using Promise.all
     const indexResults = await Promise.all(
       indexes.map(async (indexInfo) => {
@@ -81,17 +108,21 @@ export const bulkSyncDocumentsStep = createStep(
           }
 
           // Get existing document IDs to detect deletions
-          const documentIds = documents.map((doc) => doc.id || doc._id).filter(Boolean)
+          const primaryKey = meilisearchService.getPrimaryKey(indexInfo.indexKey)
+          const documentIds = documents
+            .map((doc) => doc[primaryKey])
+            .filter(Boolean)
+            .map(String)
           let existingDocumentIds: string[] = []
 
           if (documentIds.length > 0) {
             try {
               const searchResults = await meilisearchService.search(indexInfo.indexKey, '', {
-                filter: `id IN [${documentIds.map((id) => `"${id}"`).join(',')}]`,
-                attributesToRetrieve: ['id'],
+                filter: buildIdsFilter(documentIds, primaryKey),
+                attributesToRetrieve: [primaryKey],
                 language: indexInfo.language,
               })
-              existingDocumentIds = searchResults.hits.map((hit: any) => hit.id)
+              existingDocumentIds = searchResults.hits.map((hit: any) => String(hit[primaryKey]))
             } catch {
               // Index might not exist yet, that's okay
               logger.info(`Index ${indexInfo.indexKey} does not exist yet, will be created`)
@@ -101,15 +132,48 @@ export const bulkSyncDocumentsStep = createStep(
           // Find documents that need to be deleted
           const documentsToDelete = existingDocumentIds.filter((id) => !documentIds.includes(id))
 
+          snapshots.push(
+            await meilisearchService.snapshotDocuments(
+              indexInfo.indexKey,
+              [...documentIds, ...documentsToDelete],
+              indexInfo.language,
+            ),
+          )
+
           // Add or update documents
-          await meilisearchService.addDocuments(indexInfo.indexKey, documents, indexInfo.language, container)
+          const tasks = await meilisearchService.resolveTasks(
+            meilisearchService.addDocumentsInBatches(indexInfo.indexKey, documents, indexInfo.language, container),
+          )
 
           // Delete removed documents
           if (documentsToDelete.length > 0) {
-            await meilisearchService.deleteDocuments(indexInfo.indexKey, documentsToDelete, indexInfo.language)
+            tasks.push(
+              ...(await meilisearchService.resolveTasks(
+                meilisearchService.deleteDocuments(indexInfo.indexKey, documentsToDelete, indexInfo.language),
+              )),
+            )
           }
 
           const langSuffix = indexInfo.language ? ` (${indexInfo.language})` : ''
+          const failedTasks = tasks.filter(isTaskFailed)
+
+          if (failedTasks.length > 0) {
+            const taskErrors = failedTasks.map(formatTaskError).join('; ')
+            logger.error(`✗ ${indexInfo.indexKey}${langSuffix}: ${taskErrors}`)
+
+            return {
+              indexKey: indexInfo.indexKey,
+              language: indexInfo.language,
+              success: false,
+              documents,
+              added: documents.length,
+              deleted: documentsToDelete.length,
+              error: taskErrors,
+              tasks,
+              processingTime: Date.now() - indexStartTime,
+            }
+          }
+
           logger.info(
             `✓ ${indexInfo.indexKey}${langSuffix}: ${documents.length} added, ${documentsToDelete.length} deleted`,
           )
@@ -121,6 +185,7 @@ export const bulkSyncDocumentsStep = createStep(
             documents,
             added: documents.length,
             deleted: documentsToDelete.length,
+            tasks,
             processingTime: Date.now() - indexStartTime,
           }
         } catch (error) {
@@ -160,6 +225,8 @@ export const bulkSyncDocumentsStep = createStep(
       totalDeleted += result.deleted
     })
 
+    await recordSyncResults(container, indexResults)
+
     const processingTime = Date.now() - startTime
 
     logger.info(
@@ -168,15 +235,27 @@ export const bulkSyncDocumentsStep = createStep(
         `in ${processingTime}ms`,
     )
 
-    return new StepResponse<BulkSyncDocumentsStepResult>({
-      results: indexResults,
-      totalProcessed: indexes.length,
-      totalSuccessful,
-      totalFailed,
-      totalDocuments,
-      totalAdded,
-      totalDeleted,
-      processingTime,
-    })
+    return new StepResponse<BulkSyncDocumentsStepResult, IndexSnapshot[]>(
+      {
+        results: indexResults,
+        totalProcessed: indexes.length,
+        totalSuccessful,
+        totalFailed,
+        totalDocuments,
+        totalAdded,
+        totalDeleted,
+        processingTime,
+      },
+      snapshots,
+    )
+  },
+  async (snapshots, { container }) => {
+    if (!snapshots?.length) {
+      return
+    }
+
+    // Restore the documents as they were stored before the step
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+    await meilisearchService.restoreSnapshots(snapshots)
   },
 )
@@ -0,0 +1,47 @@
+import { createStep, StepResponse } from '@medusajs/workflows-sdk'
+import { MedusaError } from '@medusajs/utils'
+import { MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
+
+export type CreateTemporaryIndexStepInput = {
+  indexKey: string
+  language?: string
+}
+
+export type CreateTemporaryIndexStepResult = {
+  indexUid: string
+  temporaryIndexUid: string
+}
+
+export const createTemporaryIndexStep = createStep(
+  'create-temporary-index',
+  async ({ indexKey, language }: CreateTemporaryIndexStepInput, { container }) => {
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+
+    const indexConfig = meilisearchService.getIndexConfig(indexKey)
+    if (!indexConfig || indexConfig.enabled === false) {
+      throw new MedusaError(MedusaError.Types.NOT_FOUND, `Index ${indexKey} is not configured or is disabled`)
+    }
+
+    const indexUid = meilisearchService.getIndexUid(indexKey, language)
+    const temporaryIndexUid = `${indexUid}_reindex_${Date.now()}`
+
+    await meilisearchService.waitForTask(
+      meilisearchService.createIndex(temporaryIndexUid, { primaryKey: indexConfig.primaryKey ?? 'id' }),
+    )
+    await meilisearchService.waitForTask(
+      meilisearchService
+        .getIndex(temporaryIndexUid)
+        .updateSettings(await meilisearchService.resolveIndexSettings(indexKey)),
+    )
+
+    return new StepResponse<CreateTemporaryIndexStepResult, string>({ indexUid, temporaryIndexUid }, temporaryIndexUid)
+  },
+  async (temporaryIndexUid, { container }) => {
+    if (!temporaryIndexUid) {
+      return
+    }
+
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+    await meilisearchService.deleteIndex(temporaryIndexUid)
+  },
+)
@@ -0,0 +1,48 @@
+import { createStep, StepResponse } from '@medusajs/workflows-sdk'
+import { IndexSnapshot, MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
+
+type StepInput = {
+  type?: string
+  indexKeys?: string[]
+  ids: string[]
+}
+
+/**
+ * Remove the given documents from the given indexes, or every index of a type
+ */
+export const deleteDocumentsStep = createStep(
+  'delete-documents',
+  async ({ type, indexKeys: keys, ids }: StepInput, { container }) => {
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+    const indexKeys = keys ?? (type ? meilisearchService.getBaseIndexesByType(type) : [])
+
+    const snapshots: IndexSnapshot[] = []
+    if (ids.length) {
+      await Promise.all(
+        indexKeys.flatMap((indexKey) =>
+          meilisearchService.getIndexLanguages().map(async (language) => {
+            const snapshot = await meilisearchService.trySnapshotDocuments(indexKey, ids, language)
+            if (snapshot) {
+              snapshots.push(snapshot)
+            }
+
+            await meilisearchService.writeWithRetry({ operation: 'delete', indexKey, language, documentIds: ids }, () =>
+              meilisearchService.resolveTasks(meilisearchService.deleteDocuments(indexKey, ids, language)),
+            )
+          }),
+        ),
+      )
+    }
+
+    return new StepResponse(undefined, snapshots)
+  },
+  async (snapshots, { container }) => {
+    if (!snapshots?.length) {
+      return
+    }
+
+    // Restore the documents as they were stored before the step
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+    await meilisearchService.restoreSnapshots(snapshots)
+  },
+)
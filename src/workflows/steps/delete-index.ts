@@ -0,0 +1,13 @@
+import { createStep, StepResponse } from '@medusajs/workflows-sdk'
+import { MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
+
+export type DeleteIndexStepInput = {
+  indexUid: string
+}
+
+export const deleteIndexStep = createStep('delete-index', async ({ indexUid }: DeleteIndexStepInput, { container }) => {
+  const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+  await meilisearchService.deleteIndex(indexUid)
+
+  return new StepResponse()
+})
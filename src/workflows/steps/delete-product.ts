@@ -1,16 +1,47 @@
 import { createStep, StepResponse } from '@medusajs/workflows-sdk'
-import { MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
+import { IndexSnapshot, MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
 import { SearchUtils } from '@medusajs/utils'
 
 type StepInput = {
-  id: string
+  id?: string
+  ids?: string[]
 }
 
-export const deleteProductStep = createStep('delete-product', async ({ id }: StepInput, { container }) => {
-  const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
-  const productIndexes = await meilisearchService.getIndexesByType(SearchUtils.indexTypes.PRODUCTS)
+export const deleteProductStep = createStep(
+  'delete-product',
+  async ({ id, ids }: StepInput, { container }) => {
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+    const productIndexes = meilisearchService.getBaseIndexesByType(SearchUtils.indexTypes.PRODUCTS)
 
-  await Promise.all(productIndexes.map((indexKey) => meilisearchService.deleteDocument(indexKey, id)))
+    const productIds = ids ?? (id ? [id] : [])
+    const snapshots: IndexSnapshot[] = []
+    if (productIds.length) {
+      await Promise.all(
+        productIndexes.flatMap((indexKey) =>
+          meilisearchService.getIndexLanguages().map(async (language) => {
+            const snapshot = await meilisearchService.trySnapshotDocuments(indexKey, productIds, language)
+            if (snapshot) {
+              snapshots.push(snapshot)
+            }
 
-  return new StepResponse()
-})
+            await meilisearchService.writeWithRetry(
+              { operation: 'delete', indexKey, language, documentIds: productIds },
+              () => meilisearchService.resolveTasks(meilisearchService.deleteDocuments(indexKey, productIds, language)),
+            )
+          }),
+        ),
+      )
+    }
+
+    return new StepResponse(undefined, snapshots)
+  },
+  async (snapshots, { container }) => {
+    if (!snapshots?.length) {
+      return
+    }
+
+    // Restore the documents as they were stored before the step
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+    await meilisearchService.restoreSnapshots(snapshots)
+  },
+)
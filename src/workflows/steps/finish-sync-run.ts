@@ -0,0 +1,19 @@
+import { createStep, StepResponse } from '@medusajs/workflows-sdk'
+import { MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
+
+export type FinishSyncRunStepInput = {
+  runId: string
+}
+
+/**
+ * Mark a sync run as completed, as failed when any of its indexes failed
+ */
+export const finishSyncRunStep = createStep(
+  'finish-sync-run',
+  async ({ runId }: FinishSyncRunStepInput, { container }) => {
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+    const run = await meilisearchService.finishSyncRun(runId)
+
+    return new StepResponse({ run })
+  },
+)
@@ -0,0 +1,21 @@
+import { createStep, StepResponse } from '@medusajs/workflows-sdk'
+import { getCategoryDescendantIds } from '../../modules/meilisearch/utils/category'
+
+type StepInput = {
+  ids: string[]
+}
+
+/**
+ * Resolve the given categories together with all categories nested below them,
+ * as the breadcrumbs of nested categories include their ancestors
+ */
+export const getCategoryDescendantsStep = createStep(
+  'get-category-descendants',
+  async ({ ids }: StepInput, { container }) => {
+    const descendantIds = await getCategoryDescendantIds(container, ids)
+
+    return new StepResponse({
+      ids: [...ids, ...descendantIds],
+    })
+  },
+)
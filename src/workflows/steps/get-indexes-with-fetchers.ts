@@ -1,8 +1,16 @@
 import { createStep, StepResponse } from '@medusajs/workflows-sdk'
-import { MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
+import { MEILISEARCH_MODULE, MeiliSearchService, meilisearchIndexTypes } from '../../modules/meilisearch'
 
 export type GetIndexesWithFetchersStepInput = {
   language?: string
+  /**
+   * Only include indexes of this type, including those using a default fetcher (e.g. products)
+   */
+  type?: string
+  /**
+   * Only include these indexes, including those using a default fetcher (e.g. products)
+   */
+  indexKeys?: string[]
 }
 
 export type IndexWithFetcher = {
@@ -17,7 +25,7 @@ export type GetIndexesWithFetchersStepResult = {
 
 export const getIndexesWithFetchersStep = createStep(
   'get-indexes-with-fetchers',
-  async ({ language }: GetIndexesWithFetchersStepInput, { container }) => {
+  async ({ language, type, indexKeys }: GetIndexesWithFetchersStepInput, { container }) => {
     const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
     const logger = container.resolve('logger')
 
@@ -34,8 +42,18 @@ export const getIndexesWithFetchersStep = createStep(
         continue
       }
 
-      // Only include indexes with custom fetchers (not default product fetcher)
-      if (!indexConfig.fetcher) {
+      if (indexKeys) {
+        // Only include the requested indexes that have a fetcher
+        if (!indexKeys.includes(indexKey) || !(await meilisearchService.getDocumentFetcher(indexKey))) {
+          continue
+        }
+      } else if (type) {
+        // Only include indexes of the requested type
+        if (indexConfig.type !== type) {
+          continue
+        }
+      } else if (!indexConfig.fetcher && !Object.values(meilisearchIndexTypes).includes(indexConfig.type ?? '')) {
+        // Only include indexes with custom fetchers or built-in types (not default product fetcher)
         continue
       }
 
@@ -0,0 +1,32 @@
+import { createStep, StepResponse } from '@medusajs/workflows-sdk'
+import { MEILISEARCH_MODULE, MeiliSearchService, meilisearchIndexTypes } from '../../modules/meilisearch'
+
+type StepInput = {
+  productIds: string[]
+}
+
+/**
+ * Resolve the IDs of all variants of the given products, including deleted variants so they are removed
+ * from the variant indexes as well
+ */
+export const getProductVariantIdsStep = createStep(
+  'get-product-variant-ids',
+  async ({ productIds }: StepInput, { container }) => {
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+    if (!productIds.length || !meilisearchService.getBaseIndexesByType(meilisearchIndexTypes.VARIANTS).length) {
+      return new StepResponse({ ids: [] as string[] })
+    }
+
+    const queryService = container.resolve('query')
+    const { data: variants } = await queryService.graph({
+      entity: 'product_variant',
+      fields: ['id'],
+      filters: { product_id: productIds },
+      withDeleted: true,
+    })
+
+    return new StepResponse({
+      ids: variants.map((variant) => variant.id),
+    })
+  },
+)
@@ -0,0 +1,40 @@
+import { createStep, StepResponse } from '@medusajs/workflows-sdk'
+import { MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
+import { formatTaskError, isTaskFailed } from '../../modules/meilisearch/utils/task'
+
+export type PopulateIndexStepInput = {
+  indexKey: string
+  indexUid: string
+  language?: string
+  batchSize?: number
+}
+
+export type PopulateIndexStepResult = {
+  documentCount: number
+}
+
+/**
+ * Page through every document returned by the fetcher of an index and add them to the given index UID
+ */
+export const populateIndexStep = createStep(
+  'populate-index',
+  async ({ indexKey, indexUid, language, batchSize }: PopulateIndexStepInput, { container }) => {
+    const logger = container.resolve('logger')
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+
+    const { documentCount, tasks } = await meilisearchService.ingestDocuments(
+      indexKey,
+      meilisearchService.iterateDocuments(indexKey, container, { batchSize, language }),
+      { language, container, indexUid, wait: true },
+    )
+
+    const failedTasks = tasks.filter(isTaskFailed)
+    if (failedTasks.length > 0) {
+      throw new Error(`Failed to populate ${indexUid}: ${failedTasks.map(formatTaskError).join('; ')}`)
+    }
+
+    logger.info(`Populated ${indexUid} with ${documentCount} documents from index ${indexKey}`)
+
+    return new StepResponse<PopulateIndexStepResult>({ documentCount })
+  },
+)
@@ -0,0 +1,127 @@
+import { createStep, StepResponse } from '@medusajs/workflows-sdk'
+import { MEILISEARCH_MODULE, MeiliSearchService, TaskOutcome } from '../../modules/meilisearch'
+import { formatTaskError, isTaskFailed } from '../../modules/meilisearch/utils/task'
+import { IndexWithFetcher } from './get-indexes-with-fetchers'
+
+export type PurgeOrphanedDocumentsStepInput = {
+  indexes: IndexWithFetcher[]
+  batchSize?: number
+  /**
+   * Sync run to report the progress to
+   */
+  runId?: string
+}
+
+export type IndexPurgeResult = {
+  indexKey: string
+  language?: string
+  success: boolean
+  orphanIds: string[]
+  deleted: number
+  error?: string
+  tasks?: TaskOutcome[]
+}
+
+export type PurgeOrphanedDocumentsStepResult = {
+  results: IndexPurgeResult[]
+  totalDeleted: number
+}
+
+/**
+ * Delete documents from an index whose IDs are no longer returned by the fetcher of the index
+ */
+export const purgeOrphanedDocumentsStep = createStep(
+  'purge-orphaned-documents',
+  async ({ indexes, batchSize, runId }: PurgeOrphanedDocumentsStepInput, { container }) => {
+    const logger = container.resolve('logger')
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+
+    const results: IndexPurgeResult[] = []
+
+    // Indexes are processed one by one to keep the number of IDs held in memory bounded
+    for (const { indexKey, language } of indexes) {
+      const langSuffix = language ? ` (${language})` : ''
+      const indexBatchSize = batchSize ?? meilisearchService.getBatchSize(indexKey)
+
+      // Without a fetcher every document would be considered orphaned
+      if (!(await meilisearchService.getDocumentFetcher(indexKey))) {
+        logger.warn(`Skipping orphan purge for ${indexKey}${langSuffix}: no document fetcher available`)
+        continue
+      }
+
+      try {
+        // The index holds the primary key values, so the source documents are compared by their primary key
+        const primaryKey = meilisearchService.getPrimaryKey(indexKey)
+        const sourceIds = new Set<string>()
+        for await (const documents of meilisearchService.iterateDocuments(indexKey, container, {
+          batchSize: indexBatchSize,
+          language,
+        })) {
+          documents.forEach((doc) => sourceIds.add(meilisearchService.getDocumentId(indexKey, doc)))
+        }
+
+        const candidateIds: string[] = []
+        for await (const documentIds of meilisearchService.iterateDocumentIds(indexKey, language, indexBatchSize)) {
+          candidateIds.push(...documentIds.filter((id) => !sourceIds.has(id)))
+        }
+
+        // Delete after reading all IDs, as deleting shifts the pages of the index
+        const orphanIds: string[] = []
+        const tasks: TaskOutcome[] = []
+        for (let i = 0; i < candidateIds.length; i += indexBatchSize) {
+          // Documents created after the source scan started are missing from it, so the candidates are checked
+          // against the fetcher again and only the IDs it still does not return are deleted
+          const candidateBatchIds = candidateIds.slice(i, i + indexBatchSize)
+          const existingIds = new Set(
+            (
+              await meilisearchService.fetchDocuments(indexKey, container, {
+                filters: { [primaryKey]: candidateBatchIds },
+                language,
+              })
+            ).map((doc) => meilisearchService.getDocumentId(indexKey, doc)),
+          )
+          const batchIds = candidateBatchIds.filter((id) => !existingIds.has(id))
+          if (!batchIds.length) {
+            continue
+          }
+
+          orphanIds.push(...batchIds)
+          tasks.push(
+            ...(await meilisearchService.resolveTasks(
+              meilisearchService.deleteDocuments(indexKey, batchIds, language),
+            )),
+          )
+
+          if (runId) {
+            await meilisearchService.reportSyncProgress(runId, { batches: 1, deleted: batchIds.length })
+          }
+        }
+
+        const failedTasks = tasks.filter(isTaskFailed)
+        if (failedTasks.length > 0) {
+          throw new Error(failedTasks.map(formatTaskError).join('; '))
+        }
+
+        logger.info(`✓ ${indexKey}${langSuffix}: ${orphanIds.length} orphaned documents deleted`)
+
+        results.push({ indexKey, language, success: true, orphanIds, deleted: orphanIds.length, tasks })
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        logger.error(`✗ ${indexKey}${langSuffix}: failed to purge orphaned documents: ${errorMessage}`)
+
+        if (runId) {
+          await meilisearchService.reportSyncProgress(runId, {
+            error: { index_key: indexKey, language, message: `Failed to purge orphaned documents: ${errorMessage}` },
+          })
+        }
+
+        results.push({ indexKey, language, success: false, orphanIds: [], deleted: 0, error: errorMessage })
+      }
+    }
+
+    return new StepResponse<PurgeOrphanedDocumentsStepResult>({
+      results,
+      totalDeleted: results.reduce((total, result) => total + result.deleted, 0),
+    })
+  },
+)
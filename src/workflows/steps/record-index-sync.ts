@@ -0,0 +1,20 @@
+import { createStep, StepResponse } from '@medusajs/workflows-sdk'
+import { recordSyncResults } from './bulk-sync-documents'
+
+export type RecordIndexSyncStepInput = {
+  indexKey: string
+  language?: string
+  documentCount: number
+}
+
+/**
+ * Store a completed sync of an index, shown as the last sync on the admin dashboard
+ */
+export const recordIndexSyncStep = createStep(
+  'record-index-sync',
+  async ({ indexKey, language, documentCount }: RecordIndexSyncStepInput, { container }) => {
+    await recordSyncResults(container, [{ indexKey, language, success: true, added: documentCount }])
+
+    return new StepResponse()
+  },
+)
@@ -0,0 +1,23 @@
+import { createStep, StepResponse } from '@medusajs/workflows-sdk'
+import { MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
+
+type StepInput = {
+  eventName: string
+  data: Record<string, unknown>
+}
+
+/**
+ * Resolve the product indexes and products that embed the entities changed by an event
+ */
+export const resolveEmbeddingProductsStep = createStep(
+  'resolve-embedding-products',
+  async ({ eventName, data }: StepInput, { container }) => {
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+    const { indexKeys, ids } = await meilisearchService.resolveProductEmbeddedEntityEvent(eventName, data, container)
+
+    return new StepResponse({
+      indexKeys,
+      ids,
+    })
+  },
+)
@@ -0,0 +1,16 @@
+import { createStep, StepResponse } from '@medusajs/workflows-sdk'
+import { MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
+
+export type StartSyncRunStepInput = {
+  runId: string
+}
+
+export const startSyncRunStep = createStep(
+  'start-sync-run',
+  async ({ runId }: StartSyncRunStepInput, { container }) => {
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+    const run = await meilisearchService.startSyncRun(runId)
+
+    return new StepResponse({ run })
+  },
+)
@@ -0,0 +1,41 @@
+import { createStep, StepResponse } from '@medusajs/workflows-sdk'
+import { MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
+
+export type SwapIndexesStepInput = {
+  indexUid: string
+  temporaryIndexUid: string
+}
+
+export const swapIndexesStep = createStep(
+  'swap-indexes',
+  async ({ indexUid, temporaryIndexUid }: SwapIndexesStepInput, { container }) => {
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+
+    // Swapping requires both indexes to exist
+    await meilisearchService.upsertIndex(indexUid, {
+      primaryKey: meilisearchService.getIndexConfig(indexUid)?.primaryKey,
+    })
+    await meilisearchService.swapIndexes(indexUid, temporaryIndexUid)
+    // The live index is rebuilt with the current settings
+    meilisearchService.clearPendingRebuild(indexUid)
+
+    return new StepResponse(undefined, { indexUid, temporaryIndexUid })
+  },
+  async (input, { container }) => {
+    if (!input) {
+      return
+    }
+
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+    // The previous live index is gone once it was deleted, the rebuilt index then stays live
+    if (!(await meilisearchService.indexExists(input.temporaryIndexUid))) {
+      container
+        .resolve('logger')
+        .warn(`Not restoring the previous ${input.indexUid} index: ${input.temporaryIndexUid} no longer exists`)
+      return
+    }
+
+    // Swapping again restores the previous live index
+    await meilisearchService.swapIndexes(input.indexUid, input.temporaryIndexUid)
+  },
+)
@@ -0,0 +1,173 @@
+import { createStep, StepResponse } from '@medusajs/workflows-sdk'
+import { IndexCheckpointDTO, MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
+import { formatTaskError, isTaskFailed } from '../../modules/meilisearch/utils/task'
+import { IndexWithFetcher } from './get-indexes-with-fetchers'
+import { BulkSyncDocumentsStepResult, IndexSyncResult, recordSyncResults } from './bulk-sync-documents'
+
+export type SyncChangedDocumentsStepInput = {
+  indexes: IndexWithFetcher[]
+  filters?: Record<string, unknown>
+  /**
+   * Sync every document instead of only the changed ones, and advance the checkpoints
+   */
+  full?: boolean
+  /**
+   * Sync run to report the progress to
+   */
+  runId?: string
+}
+
+type PreviousCheckpoint = {
+  indexKey: string
+  language?: string
+  checkpoint: IndexCheckpointDTO | null
+}
+
+/**
+ * Sync only the documents updated since the last successful sync of each index.
+ * Records of indexes with a default fetcher that changed but are no longer returned (e.g. unpublished or deleted
+ * products) are removed. The checkpoint of an index is only advanced when all of its documents were indexed.
+ */
+export const syncChangedDocumentsStep = createStep(
+  'sync-changed-documents',
+  async ({ indexes, filters, full, runId }: SyncChangedDocumentsStepInput, { container }) => {
+    const logger = container.resolve('logger')
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+    const startTime = Date.now()
+
+    const results: IndexSyncResult[] = []
+    const previousCheckpoints: PreviousCheckpoint[] = []
+
+    for (const { indexKey, language } of indexes) {
+      const indexStartTime = Date.now()
+      const langSuffix = language ? ` (${language})` : ''
+
+      try {
+        const checkpoint = await meilisearchService.getCheckpoint(indexKey, language)
+
+        // Records updated while this sync is running are fetched again by the next sync
+        const syncStartedAt = new Date()
+        const changedFilters =
+          checkpoint?.last_updated_at && !full
+            ? { ...filters, updated_at: { $gt: checkpoint.last_updated_at } }
+            : filters
+
+        const ingestedIds = new Set<string>()
+        const { documentCount, tasks } = await meilisearchService.ingestDocuments(
+          indexKey,
+          meilisearchService.iterateDocuments(indexKey, container, { filters: changedFilters, language }),
+          {
+            language,
+            container,
+            // The checkpoint may only advance once the documents are actually indexed
+            wait: true,
+            onBatch: async (documents) => {
+              documents.forEach((document) => ingestedIds.add(meilisearchService.getDocumentId(indexKey, document)))
+              if (runId) {
+                await meilisearchService.reportSyncProgress(runId, { batches: 1, added: documents.length })
+              }
+            },
+          },
+        )
+
+        // Changed records the fetcher no longer returns were deleted or do not match it anymore
+        const changedIds =
+          checkpoint?.last_updated_at && !full
+            ? await meilisearchService.getChangedDocumentIds(indexKey, container, checkpoint.last_updated_at, filters)
+            : null
+        const removedIds = (changedIds ?? []).filter((id) => !ingestedIds.has(id))
+        for (let i = 0; i < removedIds.length; i += meilisearchService.getBatchSize(indexKey)) {
+          const batchIds = removedIds.slice(i, i + meilisearchService.getBatchSize(indexKey))
+          tasks.push(
+            ...(await meilisearchService.resolveTasks(
+              meilisearchService.deleteDocuments(indexKey, batchIds, language),
+              {
+                wait: true,
+              },
+            )),
+          )
+          if (runId) {
+            await meilisearchService.reportSyncProgress(runId, { batches: 1, deleted: batchIds.length })
+          }
+        }
+
+        const failedTasks = tasks.filter((task) => isTaskFailed(task) || task.status !== 'succeeded')
+        if (failedTasks.length > 0) {
+          throw new Error(failedTasks.map(formatTaskError).join('; '))
+        }
+
+        await meilisearchService.saveCheckpoint(indexKey, language, { last_updated_at: syncStartedAt })
+        previousCheckpoints.push({ indexKey, language, checkpoint })
+
+        logger.info(
+          `✓ ${indexKey}${langSuffix}: ${documentCount} changed documents added, ${removedIds.length} removed` +
+            (checkpoint?.last_updated_at ? ` since ${checkpoint.last_updated_at.toISOString()}` : ' (no checkpoint)'),
+        )
+
+        results.push({
+          indexKey,
+          language,
+          success: true,
+          documents: [],
+          added: documentCount,
+          deleted: removedIds.length,
+          tasks,
+          processingTime: Date.now() - indexStartTime,
+        })
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        logger.error(`✗ ${indexKey}${langSuffix}: ${errorMessage}`)
+
+        if (runId) {
+          await meilisearchService.reportSyncProgress(runId, {
+            error: { index_key: indexKey, language, message: errorMessage },
+          })
+        }
+
+        results.push({
+          indexKey,
+          language,
+          success: false,
+          documents: [],
+          added: 0,
+          deleted: 0,
+          error: errorMessage,
+          processingTime: Date.now() - indexStartTime,
+        })
+      }
+    }
+
+    await recordSyncResults(container, results)
+
+    const totalSuccessful = results.filter((result) => result.success).length
+    const totalAdded = results.reduce((total, result) => total + result.added, 0)
+    const totalDeleted = results.reduce((total, result) => total + result.deleted, 0)
+
+    return new StepResponse<BulkSyncDocumentsStepResult, PreviousCheckpoint[]>(
+      {
+        results,
+        totalProcessed: indexes.length,
+        totalSuccessful,
+        totalFailed: indexes.length - totalSuccessful,
+        totalDocuments: totalAdded,
+        totalAdded,
+        totalDeleted,
+        processingTime: Date.now() - startTime,
+      },
+      previousCheckpoints,
+    )
+  },
+  async (previousCheckpoints, { container }) => {
+    if (!previousCheckpoints?.length) {
+      return
+    }
+
+    // Restore the checkpoints, so the documents are synced again by the next run
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+    for (const { indexKey, language, checkpoint } of previousCheckpoints) {
+      await meilisearchService.saveCheckpoint(indexKey, language, {
+        last_updated_at: checkpoint?.last_updated_at ?? null,
+      })
+    }
+  },
+)
@@ -1,5 +1,7 @@
 import { createStep, StepResponse } from '@medusajs/workflows-sdk'
-import { MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
+import { IndexSnapshot, MEILISEARCH_MODULE, MeiliSearchService, TaskOutcome } from '../../modules/meilisearch'
+import { isTaskFailed } from '../../modules/meilisearch/utils/task'
+import { buildIdsFilter } from '../../modules/meilisearch/utils/merchandising'
 
 export type SyncDocumentsStepInput = {
   indexKey: string
@@ -13,6 +15,8 @@ export type SyncDocumentsStepResult = {
   documents: any[]
   added: number
   deleted: number
+  tasks: TaskOutcome[]
+  failedTasks: TaskOutcome[]
 }
 
 export const syncDocumentsStep = createStep(
@@ -23,11 +27,16 @@ export const syncDocumentsStep = createStep(
     // Check if index is enabled
     const indexConfig = meilisearchService['config_'].settings?.[indexKey]
     if (!indexConfig || indexConfig.enabled === false) {
-      return new StepResponse<SyncDocumentsStepResult>({
-        documents: [],
-        added: 0,
-        deleted: 0,
-      })
+      return new StepResponse<SyncDocumentsStepResult, IndexSnapshot[]>(
+        {
+          documents: [],
+          added: 0,
+          deleted: 0,
+          tasks: [],
+          failedTasks: [],
+        },
+        [],
+      )
     }
 
     // Fetch documents using the configured fetcher
@@ -39,25 +48,34 @@ export const syncDocumentsStep = createStep(
     })
 
     if (!documents || documents.length === 0) {
-      return new StepResponse<SyncDocumentsStepResult>({
-        documents: [],
-        added: 0,
-        deleted: 0,
-      })
+      return new StepResponse<SyncDocumentsStepResult, IndexSnapshot[]>(
+        {
+          documents: [],
+          added: 0,
+          deleted: 0,
+          tasks: [],
+          failedTasks: [],
+        },
+        [],
+      )
     }
 
     // Get existing document IDs to detect deletions
-    const documentIds = documents.map((doc) => doc.id || doc._id).filter(Boolean)
+    const primaryKey = meilisearchService.getPrimaryKey(indexKey)
+    const documentIds = documents
+      .map((doc) => doc[primaryKey])
+      .filter(Boolean)
+      .map(String)
 
     let existingDocumentIds: string[] = []
     if (documentIds.length > 0) {
       try {
         const searchResults = await meilisearchService.search(indexKey, '', {
-          filter: `id IN [${documentIds.map((id) => `"${id}"`).join(',')}]`,
-          attributesToRetrieve: ['id'],
+          filter: buildIdsFilter(documentIds, primaryKey),
+          attributesToRetrieve: [primaryKey],
           language,
         })
-        existingDocumentIds = searchResults.hits.map((hit: any) => hit.id)
+        existingDocumentIds = searchResults.hits.map((hit: any) => String(hit[primaryKey]))
       } catch {
         // Index might not exist yet, that's okay
         console.log(`Index ${indexKey} does not exist yet, will be created`)
@@ -67,18 +85,45 @@ export const syncDocumentsStep = createStep(
     // Find documents that need to be deleted (exist in index but not in fetched results)
     const documentsToDelete = existingDocumentIds.filter((id) => !documentIds.includes(id))
 
+    // Capture the stored documents, to restore them when the workflow is rolled back
+    const snapshot = await meilisearchService.snapshotDocuments(
+      indexKey,
+      [...documentIds, ...documentsToDelete],
+      language,
+    )
+
     // Add or update documents
-    await meilisearchService.addDocuments(indexKey, documents, language, container)
+    const tasks = await meilisearchService.resolveTasks(
+      meilisearchService.addDocumentsInBatches(indexKey, documents, language, container),
+    )
 
     // Delete removed documents
     if (documentsToDelete.length > 0) {
-      await meilisearchService.deleteDocuments(indexKey, documentsToDelete, language)
+      tasks.push(
+        ...(await meilisearchService.resolveTasks(
+          meilisearchService.deleteDocuments(indexKey, documentsToDelete, language),
+        )),
+      )
     }
 
-    return new StepResponse<SyncDocumentsStepResult>({
-      documents,
-      added: documents.length,
-      deleted: documentsToDelete.length,
-    })
+    return new StepResponse<SyncDocumentsStepResult, IndexSnapshot[]>(
+      {
+        documents,
+        added: documents.length,
+        deleted: documentsToDelete.length,
+        tasks,
+        failedTasks: tasks.filter(isTaskFailed),
+      },
+      [snapshot],
+    )
+  },
+  async (snapshots, { container }) => {
+    if (!snapshots?.length) {
+      return
+    }
+
+    // Restore the documents as they were stored before the step
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+    await meilisearchService.restoreSnapshots(snapshots)
   },
 )
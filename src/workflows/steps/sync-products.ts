@@ -1,6 +1,7 @@
 import { createStep, StepResponse } from '@medusajs/workflows-sdk'
 import { MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
 import { SearchUtils } from '@medusajs/utils'
+import { isTaskFailed } from '../../modules/meilisearch/utils/task'
 
 export type StepInput = {
   filters?: Record<string, unknown>
@@ -49,13 +50,24 @@ export const syncProductsStep = createStep(
     const productsToDelete = Array.from(existingProductIds).filter((id) => !products.some((p) => p.id === id))
 
     // ADD DOCUMENTS
-    await Promise.all(
-      productIndexes.map((index) => meilisearchService.addDocuments(index, products, undefined, container)),
+    const addTasks = await Promise.all(
+      productIndexes.map((index) =>
+        meilisearchService.resolveTasks(
+          meilisearchService.addDocumentsInBatches(index, products, undefined, container),
+        ),
+      ),
     )
-    await Promise.all(productIndexes.map((index) => meilisearchService.deleteDocuments(index, productsToDelete)))
+    const deleteTasks = await Promise.all(
+      productIndexes.map((index) =>
+        meilisearchService.resolveTasks(meilisearchService.deleteDocuments(index, productsToDelete)),
+      ),
+    )
+    const tasks = [...addTasks, ...deleteTasks].flat()
 
     return new StepResponse({
       products,
+      tasks,
+      failedTasks: tasks.filter(isTaskFailed),
     })
   },
 )
@@ -0,0 +1,92 @@
+import { createStep, StepResponse } from '@medusajs/workflows-sdk'
+import { IndexSnapshot, MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
+import { chunk } from '../../modules/meilisearch/utils/batch'
+
+type StepInput = {
+  type?: string
+  indexKeys?: string[]
+  ids: string[]
+}
+
+/**
+ * Fetch the given documents with the fetcher of the given indexes, or every index of a type, and add them.
+ * Documents that are no longer returned by the fetcher (e.g. inactive categories) are removed instead.
+ */
+export const upsertDocumentsStep = createStep(
+  'upsert-documents',
+  async ({ type, indexKeys: keys, ids }: StepInput, { container }) => {
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+    const indexKeys = keys ?? (type ? meilisearchService.getBaseIndexesByType(type) : [])
+
+    const snapshots: IndexSnapshot[] = []
+    if (!ids.length) {
+      return new StepResponse({ documents: [] }, snapshots)
+    }
+
+    const documents = await Promise.all(
+      indexKeys.flatMap((indexKey) =>
+        meilisearchService.getIndexLanguages().map(async (language) => {
+          // Skip disabled indexes and indexes without fetcher, which would otherwise remove all documents
+          if (!(await meilisearchService.getDocumentFetcher(indexKey))) {
+            return []
+          }
+
+          // Fetch and write the documents in batches, as many documents may be affected at once
+          const fetched: any[] = []
+          for (const batchIds of chunk(ids, meilisearchService.getBatchSize(indexKey))) {
+            const documents = await meilisearchService.fetchDocuments(indexKey, container, {
+              filters: { [meilisearchService.getPrimaryKey(indexKey)]: batchIds },
+              language,
+            })
+            const fetchedIds = new Set(
+              documents.map((document) => meilisearchService.getDocumentId(indexKey, document)),
+            )
+            const removedIds = batchIds.filter((id) => !fetchedIds.has(id))
+
+            const snapshot = await meilisearchService.trySnapshotDocuments(indexKey, batchIds, language)
+            if (snapshot) {
+              snapshots.push(snapshot)
+            }
+
+            // Failed writes are retried, and stored as dead letters when they keep failing
+            await meilisearchService.writeWithRetry(
+              { operation: 'upsert', indexKey, language, documentIds: batchIds },
+              async () => [
+                ...(documents.length
+                  ? await meilisearchService.resolveTasks(
+                      meilisearchService.addDocumentsInBatches(indexKey, documents, language, container),
+                    )
+                  : []),
+                ...(removedIds.length
+                  ? await meilisearchService.resolveTasks(
+                      meilisearchService.deleteDocuments(indexKey, removedIds, language),
+                    )
+                  : []),
+              ],
+            )
+
+            fetched.push(...documents)
+          }
+
+          return fetched
+        }),
+      ),
+    )
+
+    return new StepResponse(
+      {
+        documents: documents.flat(),
+      },
+      snapshots,
+    )
+  },
+  async (snapshots, { container }) => {
+    if (!snapshots?.length) {
+      return
+    }
+
+    // Restore the documents as they were stored before the step
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+    await meilisearchService.restoreSnapshots(snapshots)
+  },
+)
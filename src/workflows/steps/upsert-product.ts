@@ -1,35 +1,94 @@
 import { createStep, StepResponse } from '@medusajs/workflows-sdk'
 import { SearchUtils } from '@medusajs/utils'
-import { MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
+import { IndexSnapshot, MEILISEARCH_MODULE, MeiliSearchService } from '../../modules/meilisearch'
+import { chunk } from '../../modules/meilisearch/utils/batch'
 
 type StepInput = {
-  id: string
+  id?: string
+  ids?: string[]
 }
 
-export const upsertProductStep = createStep('upsert-products', async ({ id }: StepInput, { container }) => {
-  const queryService = container.resolve('query')
-  const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
-
-  const productFields = await meilisearchService.getFieldsForType(SearchUtils.indexTypes.PRODUCTS)
-  const productIndexes = await meilisearchService.getIndexesByType(SearchUtils.indexTypes.PRODUCTS)
-
-  const { data: products } = await queryService.graph({
-    entity: 'product',
-    fields: productFields,
-    filters: { id },
-  })
-
-  await Promise.all(
-    products.map(async (product) => {
-      if (!product.status || product.status === 'published') {
-        await Promise.all(productIndexes.map((indexKey) => meilisearchService.addDocuments(indexKey, [product], undefined, container)))
-      } else {
-        await Promise.all(productIndexes.map((indexKey) => meilisearchService.deleteDocument(indexKey, product.id)))
-      }
-    }),
-  )
-
-  return new StepResponse({
-    products,
-  })
-})
+export const upsertProductStep = createStep(
+  'upsert-products',
+  async ({ id, ids }: StepInput, { container }) => {
+    const queryService = container.resolve('query')
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+
+    const productIds = ids ?? (id ? [id] : [])
+    const productFields = await meilisearchService.getFieldsForType(SearchUtils.indexTypes.PRODUCTS)
+    const productIndexes = meilisearchService.getBaseIndexesByType(SearchUtils.indexTypes.PRODUCTS)
+    const languages = meilisearchService.getIndexLanguages()
+
+    const products: any[] = []
+    const snapshots: IndexSnapshot[] = []
+    if (!productIndexes.length) {
+      return new StepResponse({ products }, snapshots)
+    }
+
+    // Fetch the products once per batch, and write them with one request per index
+    const batchSize = Math.min(...productIndexes.map((indexKey) => meilisearchService.getBatchSize(indexKey)))
+    for (const batchIds of chunk(productIds, batchSize)) {
+      const { data: batch } = await queryService.graph({
+        entity: 'product',
+        fields: productFields,
+        filters: { id: batchIds },
+      })
+
+      const publishedProducts = batch.filter((product) => !product.status || product.status === 'published')
+      // Products that are not published or no longer exist are removed from the indexes
+      const removedIds = batchIds.filter((productId) => !publishedProducts.some((product) => product.id === productId))
+
+      // Failed writes are retried, and stored as dead letters when they keep failing
+      await Promise.all(
+        productIndexes.flatMap((indexKey) =>
+          languages.map(async (language) => {
+            const snapshot = await meilisearchService.trySnapshotDocuments(indexKey, batchIds, language)
+            if (snapshot) {
+              snapshots.push(snapshot)
+            }
+
+            if (publishedProducts.length) {
+              await meilisearchService.writeWithRetry(
+                {
+                  operation: 'upsert',
+                  indexKey,
+                  language,
+                  documentIds: publishedProducts.map((product) => product.id),
+                },
+                () =>
+                  meilisearchService.resolveTasks(
+                    meilisearchService.addDocumentsInBatches(indexKey, publishedProducts, language, container),
+                  ),
+              )
+            }
+            if (removedIds.length) {
+              await meilisearchService.writeWithRetry(
+                { operation: 'delete', indexKey, language, documentIds: removedIds },
+                () =>
+                  meilisearchService.resolveTasks(meilisearchService.deleteDocuments(indexKey, removedIds, language)),
+              )
+            }
+          }),
+        ),
+      )
+
+      products.push(...batch)
+    }
+
+    return new StepResponse(
+      {
+        products,
+      },
+      snapshots,
+    )
+  },
+  async (snapshots, { container }) => {
+    if (!snapshots?.length) {
+      return
+    }
+
+    // Restore the documents as they were stored before the step
+    const meilisearchService: MeiliSearchService = container.resolve(MEILISEARCH_MODULE)
+    await meilisearchService.restoreSnapshots(snapshots)
+  },
+)
@@ -1,5 +1,6 @@
-import { createWorkflow, WorkflowResponse } from '@medusajs/workflows-sdk'
+import { createWorkflow, transform, when, WorkflowResponse } from '@medusajs/workflows-sdk'
 import { syncDocumentsStep } from './steps/sync-documents'
+import { purgeOrphanedDocumentsStep } from './steps/purge-orphaned-documents'
 
 export type SyncDocumentsWorkflowInput = {
   indexKey: string
@@ -7,13 +8,24 @@ export type SyncDocumentsWorkflowInput = {
   limit?: number
   offset?: number
   language?: string
+  purgeOrphans?: boolean // Optional: delete documents that are no longer returned by the fetcher
 }
 
 export const syncDocumentsWorkflow = createWorkflow(
   'sync-documents',
-  ({ indexKey, filters, limit, offset, language }: SyncDocumentsWorkflowInput) => {
+  ({ indexKey, filters, limit, offset, language, purgeOrphans }: SyncDocumentsWorkflowInput) => {
     const result = syncDocumentsStep({ indexKey, filters, limit, offset, language })
 
-    return new WorkflowResponse(result)
+    const purgeResult = when({ purgeOrphans }, (data) => !!data.purgeOrphans).then(() => {
+      const indexes = transform({ indexKey, language }, (data) => [data])
+      return purgeOrphanedDocumentsStep({ indexes })
+    })
+
+    const response = transform({ result, purgeResult }, (data) => ({
+      ...data.result,
+      purgeResult: data.purgeResult,
+    }))
+
+    return new WorkflowResponse(response)
   },
 )
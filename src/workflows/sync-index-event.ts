@@ -0,0 +1,30 @@
+import { createWorkflow, transform, when, WorkflowResponse } from '@medusajs/workflows-sdk'
+import { IndexEventAction } from '../modules/meilisearch'
+import { upsertDocumentsStep } from './steps/upsert-documents'
+import { deleteDocumentsStep } from './steps/delete-documents'
+
+type WorkflowInput = {
+  indexKey: string
+  action: IndexEventAction
+  ids: string[]
+}
+
+const syncIndexEventWorkflow = createWorkflow('sync-index-event', ({ indexKey, action, ids }: WorkflowInput) => {
+  const indexKeys = transform({ indexKey }, (data) => [data.indexKey])
+
+  when({ action }, (data) => data.action === 'delete').then(() => {
+    deleteDocumentsStep({ indexKeys, ids })
+  })
+
+  const result = when({ action }, (data) => data.action !== 'delete').then(() => {
+    return upsertDocumentsStep({ indexKeys, ids })
+  })
+
+  const documents = transform({ result }, (data) => data.result?.documents ?? [])
+
+  return new WorkflowResponse({
+    documents,
+  })
+})
+
+export default syncIndexEventWorkflow
@@ -0,0 +1,50 @@
+import { createWorkflow, transform, when, WorkflowResponse } from '@medusajs/workflows-sdk'
+import { SyncRunMode } from '../modules/meilisearch'
+import { getIndexesWithFetchersStep } from './steps/get-indexes-with-fetchers'
+import { startSyncRunStep } from './steps/start-sync-run'
+import { syncChangedDocumentsStep } from './steps/sync-changed-documents'
+import { purgeOrphanedDocumentsStep } from './steps/purge-orphaned-documents'
+import { finishSyncRunStep } from './steps/finish-sync-run'
+
+export type SyncIndexesWorkflowInput = {
+  /**
+   * Sync run to report the progress to, see `createSyncRun` of the Meilisearch service
+   */
+  runId: string
+  mode: SyncRunMode
+  indexKeys: string[]
+  language?: string
+}
+
+/**
+ * Sync the given indexes as a tracked sync run
+ */
+export const syncIndexesWorkflow = createWorkflow(
+  'sync-indexes',
+  ({ runId, mode, indexKeys, language }: SyncIndexesWorkflowInput) => {
+    startSyncRunStep({ runId })
+
+    const { indexes } = getIndexesWithFetchersStep({ indexKeys, language })
+
+    // Incremental and full syncs add the (changed) documents
+    const full = transform({ mode }, (data) => data.mode === 'full')
+    const syncResult = when({ mode }, (data) => data.mode !== 'purge').then(() => {
+      return syncChangedDocumentsStep({ indexes, full, runId })
+    })
+
+    // Full syncs and purges remove the documents that no longer exist
+    const purgeResult = when({ mode }, (data) => data.mode !== 'incremental').then(() => {
+      return purgeOrphanedDocumentsStep({ indexes, runId })
+    })
+
+    const { run } = finishSyncRunStep({ runId })
+
+    const response = transform({ run, syncResult, purgeResult }, (data) => ({
+      run: data.run,
+      syncResult: data.syncResult,
+      purgeResult: data.purgeResult,
+    }))
+
+    return new WorkflowResponse(response)
+  },
+)
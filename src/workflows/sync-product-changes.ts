@@ -0,0 +1,27 @@
+import { createWorkflow, transform, WorkflowResponse } from '@medusajs/workflows-sdk'
+import { meilisearchIndexTypes } from '../modules/meilisearch'
+import { upsertProductStep } from './steps/upsert-product'
+import { deleteProductStep } from './steps/delete-product'
+import { getProductVariantIdsStep } from './steps/get-product-variant-ids'
+import { upsertDocumentsStep } from './steps/upsert-documents'
+
+type WorkflowInput = {
+  upsertIds: string[]
+  deleteIds: string[]
+}
+
+const syncProductChangesWorkflow = createWorkflow('sync-product-changes', ({ upsertIds, deleteIds }: WorkflowInput) => {
+  const { products } = upsertProductStep({ ids: upsertIds })
+  deleteProductStep({ ids: deleteIds })
+
+  // Variants of deleted or unpublished products are no longer returned by the variant fetcher, so they are removed
+  const productIds = transform({ upsertIds, deleteIds }, (data) => [...data.upsertIds, ...data.deleteIds])
+  const { ids: variantIds } = getProductVariantIdsStep({ productIds })
+  upsertDocumentsStep({ type: meilisearchIndexTypes.VARIANTS, ids: variantIds })
+
+  return new WorkflowResponse({
+    products,
+  })
+})
+
+export default syncProductChangesWorkflow
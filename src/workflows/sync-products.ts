@@ -1,19 +1,48 @@
-import { createWorkflow, WorkflowResponse } from '@medusajs/workflows-sdk'
+import { createWorkflow, transform, when, WorkflowResponse } from '@medusajs/workflows-sdk'
+import { SearchUtils } from '@medusajs/utils'
 import { syncProductsStep } from './steps/sync-products'
+import { getIndexesWithFetchersStep } from './steps/get-indexes-with-fetchers'
+import { purgeOrphanedDocumentsStep } from './steps/purge-orphaned-documents'
+import { syncChangedDocumentsStep } from './steps/sync-changed-documents'
 
 type SyncProductsWorkflowInput = {
   filters?: Record<string, unknown>
   limit?: number
   offset?: number
+  /**
+   * Only sync the products updated since the last successful sync of each product index
+   */
+  incremental?: boolean
+  /**
+   * Delete documents from the product indexes that no longer exist in the product catalog
+   */
+  purgeOrphans?: boolean
 }
 
 export const syncProductsWorkflow = createWorkflow(
   'sync-products',
-  ({ filters, limit, offset }: SyncProductsWorkflowInput) => {
-    const { products } = syncProductsStep({ filters, limit, offset })
+  ({ filters, limit, offset, incremental, purgeOrphans }: SyncProductsWorkflowInput) => {
+    const { indexes } = getIndexesWithFetchersStep({ type: SearchUtils.indexTypes.PRODUCTS })
 
-    return new WorkflowResponse({
-      products,
+    const fullResult = when({ incremental }, (data) => !data.incremental).then(() => {
+      return syncProductsStep({ filters, limit, offset })
     })
+
+    const incrementalResult = when({ incremental }, (data) => !!data.incremental).then(() => {
+      return syncChangedDocumentsStep({ indexes, filters })
+    })
+
+    const purgeResult = when({ purgeOrphans }, (data) => !!data.purgeOrphans).then(() => {
+      return purgeOrphanedDocumentsStep({ indexes })
+    })
+
+    const response = transform({ fullResult, incrementalResult, purgeResult }, (data) => ({
+      products: data.fullResult?.products ?? [],
+      failedTasks: data.fullResult?.failedTasks ?? [],
+      incrementalResult: data.incrementalResult,
+      purgeResult: data.purgeResult,
+    }))
+
+    return new WorkflowResponse(response)
   },
 )
@@ -0,0 +1,18 @@
+import { createWorkflow, transform, WorkflowResponse } from '@medusajs/workflows-sdk'
+import { meilisearchIndexTypes } from '../modules/meilisearch'
+import { upsertDocumentsStep } from './steps/upsert-documents'
+
+type WorkflowInput = {
+  id: string
+}
+
+const variantCreatedWorkflow = createWorkflow('variant-created', ({ id }: WorkflowInput) => {
+  const ids = transform({ id }, (data) => [data.id])
+  const { documents: variants } = upsertDocumentsStep({ type: meilisearchIndexTypes.VARIANTS, ids })
+
+  return new WorkflowResponse({
+    variants,
+  })
+})
+
+export default variantCreatedWorkflow